@@ -1,5 +1,5 @@
 import * as dotenv from 'dotenv';
-import {cloneAndRun} from "../src/index.ts";
+import {cloneAndRun, LLMProviderName} from "../src/index";
 
 dotenv.config();
 async function runExample() {
@@ -7,10 +7,16 @@ async function runExample() {
         repoUrl: process.env.REPO_URL || "https://github.com/andrewagain/calculator.git", // Example repo
         commitHash: process.env.COMMIT_HASH || "a19f37a", // Example commit
         githubToken: process.env.GITHUB_TOKEN || null, // Optional: For private repos
-        openaiApiKey: process.env.OPENAI_API_KEY || "", // Mandatory
+        openaiApiKey: process.env.OPENAI_API_KEY || "", // Mandatory for the default OpenAI provider
+        llm: {
+            provider: (process.env.LLM_PROVIDER || "openai") as LLMProviderName, // openai | anthropic | azure | openai-compatible
+            model: process.env.LLM_MODEL || undefined,
+            apiKey: process.env.LLM_API_KEY || undefined,
+            baseURL: process.env.LLM_BASE_URL || undefined, // e.g. http://localhost:11434/v1 for Ollama
+        },
     };
 
-    if (!options.openaiApiKey) {
+    if (options.llm.provider === "openai" && !options.openaiApiKey && !options.llm.apiKey) {
         console.error("Error: OPENAI_API_KEY environment variable is not set.");
         process.exit(1);
     }
@@ -20,6 +26,7 @@ async function runExample() {
     console.log(`[ExampleRunner]   Repo URL: ${options.repoUrl}`);
     console.log(`[ExampleRunner]   Commit/Branch: ${options.commitHash}`);
     console.log(`[ExampleRunner]   Using GitHub Token: ${options.githubToken ? 'Yes' : 'No'}`);
+    console.log(`[ExampleRunner]   LLM Provider: ${options.llm.provider}${options.llm.model ? ` (${options.llm.model})` : ''}`);
     console.log(`[ExampleRunner] ===============================================\n`);
 
     let result = null;
@@ -0,0 +1,143 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LLMOptions, LLMProviderName, RunOptions } from '../config';
+
+export type BatchInputFormat = 'json' | 'csv';
+
+// CSV columns and how they map onto RunOptions; only repoUrl is required
+const CSV_COLUMNS: Record<string, (options: Partial<RunOptions>, value: string) => void> = {
+    repoUrl: (options, value) => { options.repoUrl = value; },
+    commitHash: (options, value) => { options.commitHash = value; },
+    maxTurns: (options, value) => { options.maxTurns = Number(value); },
+    provider: (options, value) => { options.llm = { ...options.llm, provider: value as LLMProviderName }; },
+    model: (options, value) => { options.llm = { ...options.llm, model: value } as LLMOptions; }, // Provider from the batch defaults
+    detection: (options, value) => { options.detection = value as RunOptions['detection']; },
+};
+
+/**
+ * Thrown for malformed batch input, naming the entry or line at fault.
+ */
+export class BatchInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BatchInputError';
+    }
+}
+
+/**
+ * Splits CSV text into rows (RFC 4180: quoted fields may contain commas, quotes as "" and newlines).
+ */
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (quoted) throw new BatchInputError('Unterminated quoted field in CSV input.');
+    if (field !== '' || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    // Blank lines and # comments are skipped
+    return rows.filter(cells => !(cells.length === 1 && cells[0].trim() === '') && !cells[0].trim().startsWith('#'));
+}
+
+function parseCsv(text: string): Partial<RunOptions>[] {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return [];
+    const columns = header.map(name => name.trim());
+    const unknown = columns.filter(name => !CSV_COLUMNS[name]);
+    if (unknown.length) {
+        throw new BatchInputError(`Unknown CSV column(s): ${unknown.join(', ')}. Known columns: ${Object.keys(CSV_COLUMNS).join(', ')}.`);
+    }
+    return rows.map((cells, rowIndex) => {
+        if (cells.length > columns.length) throw new BatchInputError(`CSV row ${rowIndex + 2} has ${cells.length} fields, the header ${columns.length}.`);
+        const options: Partial<RunOptions> = {};
+        cells.forEach((cell, index) => {
+            const value = cell.trim();
+            if (value) CSV_COLUMNS[columns[index]](options, value);
+        });
+        return options;
+    });
+}
+
+/**
+ * Parses a list of runs: a JSON array of RunOptions, or CSV with a header row naming RunOptions
+ * fields (repoUrl, commitHash, maxTurns, provider, model, detection).
+ * A missing commitHash defaults to 'HEAD'.
+ * @param text The input.
+ * @param format Input format.
+ * @returns One RunOptions per entry, in input order.
+ * @throws BatchInputError naming the entry at fault.
+ */
+export function parseBatchInput(text: string, format: BatchInputFormat): RunOptions[] {
+    let entries: unknown[];
+    if (format === 'csv') {
+        entries = parseCsv(text);
+    } else {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (error: any) {
+            throw new BatchInputError(`Batch input is not valid JSON: ${error.message}`);
+        }
+        if (!Array.isArray(parsed)) throw new BatchInputError('Batch input must be a JSON array of run options.');
+        entries = parsed;
+    }
+
+    return entries.map((entry, index) => {
+        if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+            throw new BatchInputError(`Batch entry ${index + 1} must be an object.`);
+        }
+        const options = entry as Partial<RunOptions>;
+        if (typeof options.repoUrl !== 'string' || !options.repoUrl) {
+            throw new BatchInputError(`Batch entry ${index + 1} has no 'repoUrl'.`);
+        }
+        if (options.maxTurns !== undefined && (!Number.isInteger(options.maxTurns) || options.maxTurns < 1)) {
+            throw new BatchInputError(`Batch entry ${index + 1}: 'maxTurns' must be a positive integer.`);
+        }
+        return { ...options, commitHash: options.commitHash || 'HEAD' } as RunOptions;
+    });
+}
+
+/**
+ * Reads a batch file; the format follows the extension (.csv, otherwise JSON) unless given.
+ * @param filePath Path of the file.
+ * @param format Overrides the extension.
+ * @returns The runs of the file.
+ * @throws BatchInputError if the file cannot be read or parsed.
+ */
+export async function readBatchFile(filePath: string, format?: BatchInputFormat): Promise<RunOptions[]> {
+    let text: string;
+    try {
+        text = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+        throw new BatchInputError(`Cannot read batch file ${filePath}: ${error.message}`);
+    }
+    return parseBatchInput(text, format || (path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json'));
+}
@@ -0,0 +1,51 @@
+import { BatchEntryResult, BatchReport } from '../config';
+
+export type BatchReportFormat = 'json' | 'csv' | 'markdown';
+
+// Per-entry columns of the CSV and Markdown reports
+const REPORT_COLUMNS: [string, (result: BatchEntryResult) => string][] = [
+    ['#', result => String(result.index + 1)],
+    ['repoUrl', result => result.repoUrl],
+    ['commitHash', result => result.commitHash],
+    ['status', result => result.status],
+    ['failureReason', result => result.failureReason || ''],
+    ['url', result => result.url || ''],
+    ['durationSeconds', result => (result.durationMs / 1000).toFixed(1)],
+    ['turns', result => String(result.turns)],
+    ['costUsd', result => result.costUsd === null ? '' : result.costUsd.toFixed(4)],
+    ['notes', result => result.notes || ''],
+];
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+    return value.replace(/\|/g, '\\|').replace(/\s*\r?\n\s*/g, ' ');
+}
+
+/**
+ * Renders a batch report.
+ * @param report The report from runBatch.
+ * @param format 'json' (complete, including each FinalOutcome), 'csv' or 'markdown' (one row per entry).
+ * @returns The rendered report.
+ */
+export function formatBatchReport(report: BatchReport, format: BatchReportFormat): string {
+    if (format === 'json') return JSON.stringify(report, null, 2) + '\n';
+
+    const rows = report.results.map(result => REPORT_COLUMNS.map(([, cell]) => cell(result)));
+    if (format === 'csv') {
+        return [REPORT_COLUMNS.map(([name]) => name), ...rows].map(row => row.map(csvField).join(',')).join('\n') + '\n';
+    }
+
+    const lines = [
+        '# Batch run report',
+        '',
+        `${report.succeeded} of ${report.total} runnable, ${report.failed} failed. Started ${report.startedAt}, took ${Math.round(report.durationMs / 1000)}s.`,
+        '',
+        `| ${REPORT_COLUMNS.map(([name]) => name).join(' | ')} |`,
+        `| ${REPORT_COLUMNS.map(() => '---').join(' | ')} |`,
+        ...rows.map(row => `| ${row.map(markdownCell).join(' | ')} |`),
+    ];
+    return lines.join('\n') + '\n';
+}
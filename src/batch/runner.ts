@@ -0,0 +1,138 @@
+import { cloneAndRun } from '../core/orchestrator';
+import { runningProcesses, terminateTrackedProcess } from '../process/manager';
+import { validatePortRange } from '../process/ports';
+import { createJobQueue } from '../server/queue';
+import { cleanupRepo } from '../utils/fsUtils';
+import * as logger from '../utils/logger';
+import {
+    BATCH_DEFAULT_CONCURRENCY,
+    BATCH_PORT_BASE,
+    BATCH_PORTS_PER_RUN,
+    BatchEntryResult,
+    BatchOptions,
+    BatchReport,
+    FinalOutcome,
+    PortRange,
+    RunOptions
+} from '../config';
+
+/**
+ * Merges the batch defaults under an entry. LLM options are merged field by field, unless the
+ * entry picks another provider (the defaults' key and endpoint would not apply to it).
+ */
+function mergeRunOptions(defaults: Partial<RunOptions>, entry: RunOptions): RunOptions {
+    const sameProvider = !entry.llm?.provider || !defaults.llm || entry.llm.provider === defaults.llm.provider;
+    const llm = entry.llm ? (sameProvider ? { ...defaults.llm, ...entry.llm } : entry.llm) : defaults.llm;
+    return { ...defaults, ...entry, llm: llm && { ...llm, provider: llm.provider || 'openai' } };
+}
+
+function toEntryResult(index: number, entry: RunOptions, outcome: FinalOutcome, durationMs: number, ports: PortRange | null): BatchEntryResult {
+    return {
+        index,
+        repoUrl: entry.repoUrl,
+        commitHash: entry.commitHash,
+        status: outcome.status,
+        failureReason: outcome.status === 'success' ? null : outcome.failureReason ?? null,
+        url: outcome.url,
+        notes: outcome.notes,
+        durationMs,
+        turns: outcome.usage?.turns ?? 0,
+        costUsd: outcome.usage?.costUsd ?? null,
+        ports,
+        outcome,
+    };
+}
+
+/**
+ * Runs many repositories/commits with bounded concurrency. Every run has its own checkout,
+ * provider and tracked processes; runs executing at the same time also get disjoint port ranges
+ * (RunOptions.ports, unless the entry sets its own). Each checkout is cleaned up as soon as its
+ * run ends. Never throws for a failing entry: errors become failure results.
+ * @param entries The runs, e.g. from readBatchFile.
+ * @param batchOptions Concurrency, port ranges and defaults for every entry.
+ * @returns The report, with results in input order.
+ * @throws Error if the port ranges do not fit below 65536.
+ */
+export async function runBatch(entries: RunOptions[], batchOptions: BatchOptions = {}): Promise<BatchReport> {
+    const concurrency = batchOptions.concurrency ?? BATCH_DEFAULT_CONCURRENCY;
+    const portBase = batchOptions.portBase ?? BATCH_PORT_BASE;
+    const portsPerRun = batchOptions.portsPerRun ?? BATCH_PORTS_PER_RUN;
+    const queue = createJobQueue(concurrency);
+    validatePortRange({ start: portBase, end: portBase + concurrency * portsPerRun - 1 });
+
+    // One port range per concurrency slot; a slot is reused once its run has finished
+    const freeSlots = Array.from({ length: concurrency }, (_, slot) => slot);
+    const slotRange = (slot: number): PortRange => ({ start: portBase + slot * portsPerRun, end: portBase + (slot + 1) * portsPerRun - 1 });
+
+    const startedAt = new Date();
+    const results: BatchEntryResult[] = new Array(entries.length);
+    const finish = (result: BatchEntryResult) => {
+        results[result.index] = result;
+        logger.log(`[Batch] ${result.index + 1}/${entries.length} ${result.repoUrl}#${result.commitHash}: ${result.status}${result.failureReason ? ` (${result.failureReason})` : ''} in ${Math.round(result.durationMs / 1000)}s.`);
+        batchOptions.onResult?.(result);
+    };
+
+    const runEntry = async (index: number): Promise<void> => {
+        const slot = freeSlots.shift()!;
+        const entry = entries[index];
+        const ports = entry.ports || slotRange(slot);
+        const options: RunOptions = {
+            ...mergeRunOptions(batchOptions.defaults || {}, entry),
+            ports,
+            keepAlive: false,
+            signal: entry.signal || batchOptions.signal,
+        };
+        logger.log(`[Batch] ${index + 1}/${entries.length} starting ${entry.repoUrl}#${entry.commitHash} (ports ${ports.start}-${ports.end}).`);
+        const started = Date.now();
+        let outcome: FinalOutcome;
+        try {
+            outcome = await cloneAndRun(options);
+        } catch (error: any) {
+            // Invalid options or a cassette mismatch: cloneAndRun throws instead of returning an outcome
+            outcome = { status: 'failure', failureReason: 'error', url: null, notes: error.message, repoPath: 'unknown' };
+        }
+        try {
+            if (outcome.repoPath !== 'unknown') {
+                if (batchOptions.keepFiles) {
+                    await terminateTrackedProcess(outcome.repoPath, runningProcesses);
+                } else {
+                    await cleanupRepo(outcome.repoPath, runningProcesses);
+                    delete outcome.logDir; // Deleted with the checkout
+                }
+            }
+        } catch (cleanupError: any) {
+            logger.warn(`[Batch] Cleanup of ${outcome.repoPath} failed: ${cleanupError.message}`);
+        } finally {
+            freeSlots.push(slot);
+            freeSlots.sort((a, b) => a - b);
+        }
+        finish(toEntryResult(index, entry, outcome, Date.now() - started, ports));
+    };
+
+    const onAbort = () => entries.forEach((_, index) => queue.cancel(String(index)));
+    batchOptions.signal?.addEventListener('abort', onAbort);
+    logger.log(`[Batch] Running ${entries.length} entries, ${concurrency} at a time.`);
+    try {
+        await Promise.all(entries.map((entry, index) =>
+            queue.enqueue(String(index), () => runEntry(index)).catch(error => {
+                // Cancelled before it started
+                const outcome: FinalOutcome = { status: 'failure', failureReason: 'cancelled', url: null, notes: error.message, repoPath: 'unknown' };
+                finish(toEntryResult(index, entry, outcome, 0, null));
+            })
+        ));
+    } finally {
+        batchOptions.signal?.removeEventListener('abort', onAbort);
+    }
+
+    const finishedAt = new Date();
+    const succeeded = results.filter(result => result.status === 'success').length;
+    return {
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        total: entries.length,
+        succeeded,
+        failed: entries.length - succeeded,
+        results,
+    };
+}
@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import * as logger from '../utils/logger';
+import { directorySize, evictLeastRecentlyUsed, touchEntry } from './lru';
+import { normalizeRepoUrl } from '../recipes/store';
+import { resolveGitSource } from '../git/client';
+import { DEPENDENCY_CACHE_KINDS, DependencyCacheKind } from '../config';
+
+// Installed dependency directories (node_modules, .venv, target) shared across runs. An entry is
+// keyed by the repository and the lockfiles of the checkout, so it is only reused for identical
+// dependency sets of the same repository: <deps dir>/<key>/{meta.json, content/}.
+
+const META_FILE = 'meta.json';
+const CONTENT_DIR = 'content';
+const STAGING_DIR = '.staging'; // Entries are assembled here and renamed into place when complete
+const RELOCATE_MAX_FILE_SIZE = 1024 * 1024;
+
+export interface DependencyCacheKey {
+    kind: DependencyCacheKind;
+    key: string;
+    lockfiles: string[]; // The lockfiles that were hashed
+}
+
+interface DependencyCacheMeta {
+    directory: string;
+    lockfiles: string[];
+    repoPath: string; // Checkout the entry was saved from, for relocation
+    createdAt: string;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+    return fs.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * Computes the cache keys of a checkout from the lockfiles at its root. Must be called before the
+ * agent runs: installs may rewrite lockfiles, and entries are stored under the keys of the
+ * checked-out commit.
+ * @param repoPath Absolute path of the checkout.
+ * @param repoUrl The repository the checkout came from. Entries are never shared between
+ *   repositories: one that copies another's lockfile must not receive its (possibly modified) dependencies.
+ * @param kinds Dependency directories to consider.
+ * @returns One key per kind that has a lockfile.
+ */
+export async function computeDependencyKeys(
+    repoPath: string,
+    repoUrl: string,
+    kinds: DependencyCacheKind[] = DEPENDENCY_CACHE_KINDS
+): Promise<DependencyCacheKey[]> {
+    const repository = normalizeRepoUrl(resolveGitSource(repoUrl).url); // Local paths made absolute
+    const keys: DependencyCacheKey[] = [];
+    for (const kind of kinds) {
+        const hash = crypto.createHash('sha256').update(`${repository}\0`);
+        // Native modules and compiled artifacts are only valid on the same platform
+        hash.update(`${kind.directory}\0${process.platform}\0${process.arch}\0`);
+        if (kind.directory === 'node_modules') hash.update(`node${process.versions.node.split('.')[0]}\0`);
+        const lockfiles: string[] = [];
+        for (const lockfile of kind.lockfiles) {
+            let content: Buffer;
+            try {
+                content = await fs.readFile(path.join(repoPath, lockfile));
+            } catch {
+                continue;
+            }
+            hash.update(`${lockfile}\0`).update(content).update('\0');
+            lockfiles.push(lockfile);
+        }
+        if (lockfiles.length) keys.push({ kind, key: hash.digest('hex').slice(0, 32), lockfiles });
+    }
+    return keys;
+}
+
+/**
+ * Rewrites absolute paths of the original checkout in a restored virtualenv: script shebangs in
+ * bin/, pyvenv.cfg and .pth files (editable installs).
+ */
+async function relocateVirtualenv(venvDir: string, fromRepoPath: string, toRepoPath: string): Promise<void> {
+    const candidates = [path.join(venvDir, 'pyvenv.cfg')];
+    const addFiles = async (dir: string, filter: (name: string) => boolean) => {
+        const dirents = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const dirent of dirents) if (dirent.isFile() && filter(dirent.name)) candidates.push(path.join(dir, dirent.name));
+    };
+    await addFiles(path.join(venvDir, 'bin'), () => true);
+    for (const libDir of ['lib', 'lib64', 'Lib']) {
+        const pythons = await fs.readdir(path.join(venvDir, libDir)).catch(() => [] as string[]);
+        for (const python of pythons) await addFiles(path.join(venvDir, libDir, python, 'site-packages'), name => name.endsWith('.pth'));
+    }
+    await addFiles(path.join(venvDir, 'Lib', 'site-packages'), name => name.endsWith('.pth'));
+
+    for (const file of candidates) {
+        try {
+            const stat = await fs.stat(file);
+            if (stat.size > RELOCATE_MAX_FILE_SIZE) continue;
+            const content = await fs.readFile(file, 'utf-8');
+            if (content.includes(fromRepoPath)) await fs.writeFile(file, content.split(fromRepoPath).join(toRepoPath));
+        } catch {
+            // Binary or unreadable: left as is
+        }
+    }
+}
+
+/**
+ * Restores cached dependency directories into a fresh checkout. Directories the checkout already
+ * contains are left alone.
+ * @param repoPath Absolute path of the checkout.
+ * @param depsDir Directory holding the dependency entries.
+ * @param keys Keys from computeDependencyKeys.
+ * @returns The restored directories, relative to the checkout.
+ */
+export async function restoreDependencies(repoPath: string, depsDir: string, keys: DependencyCacheKey[]): Promise<string[]> {
+    const restored: string[] = [];
+    for (const { kind, key, lockfiles } of keys) {
+        const entryDir = path.join(depsDir, key);
+        const target = path.join(repoPath, kind.directory);
+        let meta: DependencyCacheMeta;
+        try {
+            meta = JSON.parse(await fs.readFile(path.join(entryDir, META_FILE), 'utf-8'));
+        } catch {
+            logger.log(`No cached ${kind.directory} for ${lockfiles.join(', ')}.`);
+            continue;
+        }
+        if (await pathExists(target)) continue;
+        try {
+            await fs.cp(path.join(entryDir, CONTENT_DIR), target, { recursive: true, verbatimSymlinks: true });
+            if (kind.relocatable && meta.repoPath !== repoPath) await relocateVirtualenv(target, meta.repoPath, repoPath);
+            await touchEntry(entryDir);
+            restored.push(kind.directory);
+            logger.log(`Restored ${kind.directory} from the dependency cache (${lockfiles.join(', ')} unchanged).`);
+        } catch (error: any) {
+            // E.g. the entry was evicted by a concurrent run while being copied
+            logger.warn(`Could not restore ${kind.directory} from the dependency cache: ${error.message}`);
+            await fs.rm(target, { recursive: true, force: true });
+        }
+    }
+    return restored;
+}
+
+/**
+ * Stores the dependency directories of a checkout that are not cached yet, then evicts least
+ * recently used entries beyond `maxBytes`. Called after a successful run only, so broken
+ * installs are not cached.
+ * @param repoPath Absolute path of the checkout.
+ * @param depsDir Directory holding the dependency entries.
+ * @param keys Keys computed before the agent ran.
+ * @param maxBytes Size limit of the dependency cache.
+ * @returns The stored directories, relative to the checkout.
+ */
+export async function saveDependencies(repoPath: string, depsDir: string, keys: DependencyCacheKey[], maxBytes: number): Promise<string[]> {
+    const saved: string[] = [];
+    for (const { kind, key, lockfiles } of keys) {
+        const entryDir = path.join(depsDir, key);
+        const source = path.join(repoPath, kind.directory);
+        if (!(await fs.stat(source).then(stat => stat.isDirectory(), () => false))) continue;
+        if (await pathExists(entryDir)) {
+            await touchEntry(entryDir);
+            continue;
+        }
+        const size = await directorySize(source);
+        if (size > maxBytes) {
+            logger.warn(`Not caching ${kind.directory}: ${Math.round(size / 1024 / 1024)} MB exceeds the dependency cache limit.`);
+            continue;
+        }
+
+        const stagingDir = path.join(depsDir, STAGING_DIR, `${key}-${process.pid}-${Date.now()}`);
+        try {
+            await fs.mkdir(stagingDir, { recursive: true });
+            await fs.cp(source, path.join(stagingDir, CONTENT_DIR), { recursive: true, verbatimSymlinks: true });
+            const meta: DependencyCacheMeta = { directory: kind.directory, lockfiles, repoPath, createdAt: new Date().toISOString() };
+            await fs.writeFile(path.join(stagingDir, META_FILE), JSON.stringify(meta, null, 2));
+            await touchEntry(stagingDir);
+            await fs.rename(stagingDir, entryDir);
+            saved.push(kind.directory);
+            logger.log(`Saved ${kind.directory} to the dependency cache (${Math.round(size / 1024 / 1024)} MB).`);
+        } catch (error: any) {
+            // A concurrent run may have stored the same entry first
+            if (!(await pathExists(entryDir))) logger.warn(`Could not cache ${kind.directory}: ${error.message}`);
+        } finally {
+            await fs.rm(stagingDir, { recursive: true, force: true });
+        }
+    }
+    await evictLeastRecentlyUsed(depsDir, maxBytes, keys.map(({ key }) => path.join(depsDir, key)));
+    return saved;
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as logger from '../utils/logger';
+import { CACHE_LOCK_TIMEOUT, CACHE_LOCK_STALE_AFTER, CACHE_LOCK_POLL_INTERVAL } from '../config';
+
+// Size-bounded cache directories: every entry is a directory directly under a root, its last use
+// recorded in the mtime of a marker file. Entries are locked while a run writes to them.
+
+const LAST_USED_MARKER = '.repo-runner-last-used';
+const LOCK_SUFFIX = '.lock';
+
+/**
+ * Total size of a directory tree in bytes (symlinks are not followed).
+ * @param dir The directory.
+ * @returns Size in bytes; 0 if it does not exist.
+ */
+export async function directorySize(dir: string): Promise<number> {
+    let total = 0;
+    let dirents;
+    try {
+        dirents = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+        return 0;
+    }
+    for (const dirent of dirents) {
+        const entryPath = path.join(dir, dirent.name);
+        if (dirent.isDirectory()) {
+            total += await directorySize(entryPath);
+        } else {
+            try {
+                total += (await fs.lstat(entryPath)).size;
+            } catch {
+                // Removed while walking
+            }
+        }
+    }
+    return total;
+}
+
+/**
+ * Records that a cache entry was just used.
+ * @param entryDir The entry directory.
+ */
+export async function touchEntry(entryDir: string): Promise<void> {
+    const marker = path.join(entryDir, LAST_USED_MARKER);
+    const now = new Date();
+    try {
+        await fs.utimes(marker, now, now);
+    } catch {
+        await fs.writeFile(marker, '');
+    }
+}
+
+async function lastUsed(entryDir: string): Promise<number> {
+    try {
+        return (await fs.stat(path.join(entryDir, LAST_USED_MARKER))).mtimeMs;
+    } catch {
+        return 0; // Never marked: evicted first
+    }
+}
+
+/**
+ * Runs `task` while holding an exclusive lock on a cache entry (a `<entry>.lock` directory, so it
+ * also works across processes). Waits for other holders up to CACHE_LOCK_TIMEOUT and takes over
+ * locks older than CACHE_LOCK_STALE_AFTER.
+ * @param entryDir The entry to lock (need not exist yet).
+ * @param task Work to do under the lock.
+ * @returns The result of `task`.
+ */
+export async function withEntryLock<T>(entryDir: string, task: () => Promise<T>): Promise<T> {
+    const lockDir = entryDir + LOCK_SUFFIX;
+    await fs.mkdir(path.dirname(lockDir), { recursive: true });
+    const deadline = Date.now() + CACHE_LOCK_TIMEOUT;
+    for (;;) {
+        try {
+            await fs.mkdir(lockDir);
+            break;
+        } catch (error: any) {
+            if (error.code !== 'EEXIST') throw error;
+            const age = await fs.stat(lockDir).then(stat => Date.now() - stat.mtimeMs, () => 0);
+            if (age > CACHE_LOCK_STALE_AFTER) {
+                logger.warn(`Removing stale cache lock ${lockDir}.`);
+                await fs.rm(lockDir, { recursive: true, force: true });
+                continue;
+            }
+            if (Date.now() > deadline) throw new Error(`Timed out waiting for cache lock ${lockDir}.`);
+            await new Promise(resolve => setTimeout(resolve, CACHE_LOCK_POLL_INTERVAL));
+        }
+    }
+    try {
+        return await task();
+    } finally {
+        await fs.rm(lockDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Removes least recently used entries of a cache root until it fits in `maxBytes`.
+ * Locked entries, the entries in `keep` and dot-directories (staging areas) are never removed.
+ * @param rootDir Directory holding the entries.
+ * @param maxBytes Size limit.
+ * @param keep Entry directories in use by the current run.
+ * @returns The removed entry directories.
+ */
+export async function evictLeastRecentlyUsed(rootDir: string, maxBytes: number, keep: string[] = []): Promise<string[]> {
+    let names: string[];
+    try {
+        names = (await fs.readdir(rootDir, { withFileTypes: true }))
+            .filter(dirent => dirent.isDirectory() && !dirent.name.endsWith(LOCK_SUFFIX) && !dirent.name.startsWith('.'))
+            .map(dirent => dirent.name);
+    } catch {
+        return [];
+    }
+    const entries = await Promise.all(names.map(async name => {
+        const entryDir = path.join(rootDir, name);
+        return { entryDir, size: await directorySize(entryDir), lastUsed: await lastUsed(entryDir) };
+    }));
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const removed: string[] = [];
+    for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+        if (total <= maxBytes) break;
+        if (keep.includes(entry.entryDir)) continue;
+        const locked = await fs.stat(entry.entryDir + LOCK_SUFFIX).then(() => true, () => false);
+        if (locked) continue;
+        logger.log(`Evicting cache entry ${entry.entryDir} (${Math.round(entry.size / 1024 / 1024)} MB, least recently used).`);
+        await fs.rm(entry.entryDir, { recursive: true, force: true });
+        total -= entry.size;
+        removed.push(entry.entryDir);
+    }
+    return removed;
+}
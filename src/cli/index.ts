@@ -0,0 +1,479 @@
+#!/usr/bin/env node
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { cloneAndRun } from '../core/orchestrator';
+import { listTrackedServices, runningProcesses, terminateTrackedProcess, terminateUntrackedProcesses, TrackedProcesses } from '../process/manager';
+import { listRegisteredProcesses, registerProcess, unregisterProcess, RegisteredProcess } from '../process/registry';
+import { startRunService } from '../server/service';
+import { readBatchFile, BatchInputError, BatchInputFormat } from '../batch/input';
+import { runBatch } from '../batch/runner';
+import { formatBatchReport, BatchReportFormat } from '../batch/report';
+import { ConfigError } from '../config/loader';
+import { isValidEnvName } from '../process/environment';
+import { cleanupRepo } from '../utils/fsUtils';
+import * as logger from '../utils/logger';
+import {
+    SERVICE_DEFAULT_PORT,
+    SERVICE_DEFAULT_HOST,
+    SERVICE_MAX_CONCURRENT_RUNS,
+    DEFAULT_SERVICE_NAME,
+    CONTEXT_DEFAULT_MAX_TOKENS,
+    CACHE_DIR,
+    SECRET_MIN_LENGTH,
+    BATCH_DEFAULT_CONCURRENCY,
+    BATCH_PORT_BASE,
+    BATCH_PORTS_PER_RUN,
+    BatchReport,
+    BudgetOptions,
+    FinalOutcome,
+    LLMOptions,
+    LLMProviderName,
+    ProcessInfo,
+    RunOptions,
+    SandboxOptions
+} from '../config';
+
+// --- Exit Codes ---
+export const EXIT_SUCCESS = 0; // Project is running
+export const EXIT_UNRUNNABLE = 1; // Analysis finished, project could not be run
+export const EXIT_INTERNAL_ERROR = 2; // The runner itself failed
+export const EXIT_USAGE = 64; // Invalid command line
+
+const PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'azure', 'openai-compatible'];
+const SANDBOX_BACKENDS: SandboxOptions['backend'][] = ['local', 'bubblewrap', 'docker', 'podman'];
+const DETECTION_MODES: RunOptions['detection'][] = ['hint', 'heuristic-only', 'off'];
+const REPORT_FORMATS: BatchReportFormat[] = ['json', 'csv', 'markdown'];
+const INPUT_FORMATS: BatchInputFormat[] = ['json', 'csv'];
+
+const USAGE = `Usage:
+  repo-runner run <repo-url> [options]   Clone a repository (URL or local path) and try to run it
+  repo-runner ps [--json]                List processes kept running by earlier 'run --keep' invocations
+  repo-runner stop <pid>... | --all      Stop kept processes and delete their checkouts (--keep-files to retain them)
+  repo-runner serve [options]            Run as an HTTP service that queues and manages runs
+  repo-runner batch <file> [options]     Run every entry of a JSON or CSV file and print a consolidated report
+
+Run options:
+  --commit <ref>        Commit SHA, branch or tag to check out (default: HEAD)
+  --ssh-key <path>      Private key for SSH repository URLs
+  --no-submodules       Do not initialize git submodules
+  --lfs                 Pull Git LFS content after checkout (requires git-lfs)
+  --provider <name>     LLM provider: ${PROVIDERS.join(', ')} (default: openai)
+  --model <name>        Model name (default depends on provider)
+  --base-url <url>      Endpoint for azure / openai-compatible providers
+  --config <file>       JSON config file (default: $REPO_RUNNER_CONFIG or ./repo-runner.config.json)
+  --max-turns <n>       Maximum number of LLM turns
+  --max-tokens <n>      Stop once the LLM has used this many tokens
+  --max-cost <usd>      Stop once the LLM cost reaches this amount (needs a known model price)
+  --max-duration <s>    Stop once the run has taken this many seconds
+  --context-budget <n>  Estimated prompt tokens before older turns are compacted (default: ${CONTEXT_DEFAULT_MAX_TOKENS})
+  --sandbox <backend>   Where commands run: ${SANDBOX_BACKENDS.join(', ')} (default: local)
+  --no-network          Disable networking inside the sandbox
+  --detection <mode>    Project detection: ${DETECTION_MODES.join(', ')} (default: hint)
+  --no-recipes          Do not replay or save run recipes for this repository
+  --env <NAME=value>    Environment variable for every command (repeatable)
+  --secret <NAME>       Pass the host variable NAME to every command as a secret: the model
+                        sees only the name; values need ${SECRET_MIN_LENGTH}+ characters (repeatable)
+  --cache               Reuse a local clone mirror and cached dependencies across runs
+  --cache-dir <dir>     Cache location (implies --cache; default: ${CACHE_DIR})
+  --keep                Leave the app running and the checkout on disk after a successful run
+  --json                Print the FinalOutcome as JSON on stdout (logs go to stderr)
+
+Serve options:
+  --port <n>            Port to listen on (default: ${SERVICE_DEFAULT_PORT})
+  --host <addr>         Address to bind (default: ${SERVICE_DEFAULT_HOST})
+  --concurrency <n>     Maximum concurrent runs (default: ${SERVICE_MAX_CONCURRENT_RUNS})
+
+Batch options:
+  --concurrency <n>     Runs executed at the same time (default: ${BATCH_DEFAULT_CONCURRENCY})
+  --format <fmt>        Report format: ${REPORT_FORMATS.join(', ')} (default: markdown)
+  --output <file>       Write the report to a file instead of stdout
+  --input-format <fmt>  json or csv (default: from the file extension)
+  --port-base <n>       First port of the per-run port ranges (default: ${BATCH_PORT_BASE}, ${BATCH_PORTS_PER_RUN} ports per run)
+  --keep-files          Keep each run's checkout on disk
+  --provider, --model, --base-url, --max-turns, --cache, --cache-dir   Defaults for every entry, as for 'run'
+
+Environment:
+  OPENAI_API_KEY, ANTHROPIC_API_KEY, AZURE_OPENAI_API_KEY, LLM_API_KEY, LLM_BASE_URL, GITHUB_TOKEN,
+  GIT_TOKEN (HTTPS token for any git host; takes precedence over GITHUB_TOKEN)
+  REPO_RUNNER_CONFIG, REPO_RUNNER_<SETTING> (e.g. REPO_RUNNER_MAX_TURNS, REPO_RUNNER_COMMAND_TIMEOUT)
+
+Exit codes:
+  ${EXIT_SUCCESS} running, ${EXIT_UNRUNNABLE} unrunnable, ${EXIT_INTERNAL_ERROR} internal error, ${EXIT_USAGE} usage error`;
+
+class UsageError extends Error {}
+
+function resolveApiKey(provider: LLMProviderName): string | undefined {
+    const providerKeys: Record<LLMProviderName, string | undefined> = {
+        'openai': process.env.OPENAI_API_KEY,
+        'anthropic': process.env.ANTHROPIC_API_KEY,
+        'azure': process.env.AZURE_OPENAI_API_KEY,
+        'openai-compatible': undefined,
+    };
+    return process.env.LLM_API_KEY || providerKeys[provider];
+}
+
+function parsePositiveInteger(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) throw new UsageError(`${flag} must be a positive integer.`);
+    return parsed;
+}
+
+function parsePositiveNumber(value: string | undefined, flag: string): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) throw new UsageError(`${flag} must be a positive number.`);
+    return parsed;
+}
+
+function parseEnvAssignments(assignments: string[] | undefined): Record<string, string> | undefined {
+    if (!assignments?.length) return undefined;
+    const env: Record<string, string> = {};
+    for (const assignment of assignments) {
+        const separator = assignment.indexOf('=');
+        const name = separator === -1 ? assignment : assignment.substring(0, separator);
+        if (separator === -1 || !isValidEnvName(name)) throw new UsageError(`--env expects NAME=value, got '${assignment}'.`);
+        env[name] = assignment.substring(separator + 1);
+    }
+    return env;
+}
+
+function readSecretVariables(names: string[] | undefined): Record<string, string> | undefined {
+    if (!names?.length) return undefined;
+    const secrets: Record<string, string> = {};
+    for (const name of names) {
+        if (!isValidEnvName(name)) throw new UsageError(`--secret expects a variable name, got '${name}'.`);
+        // Read from the environment so the value never appears in argv
+        if (process.env[name] === undefined) throw new UsageError(`--secret ${name}: the variable is not set in this environment.`);
+        secrets[name] = process.env[name];
+    }
+    return secrets;
+}
+
+function exitCodeFor(outcome: FinalOutcome): number {
+    if (outcome.status === 'success') return EXIT_SUCCESS;
+    return outcome.failureReason === 'error' ? EXIT_INTERNAL_ERROR : EXIT_UNRUNNABLE;
+}
+
+function printOutcome(outcome: FinalOutcome, asJson: boolean): void {
+    if (asJson) {
+        process.stdout.write(JSON.stringify(outcome, null, 2) + '\n');
+        return;
+    }
+    console.log(outcome.status === 'success' ? `Running at ${outcome.url}` : `Not runnable (${outcome.failureReason || 'unknown'})`);
+    console.log(`Notes: ${outcome.notes || 'N/A'}`);
+    console.log(`Repository: ${outcome.repoPath}`);
+    if (outcome.usage) {
+        const cost = outcome.usage.costUsd === null ? '' : `, $${outcome.usage.costUsd.toFixed(4)}`;
+        console.log(`LLM usage: ${outcome.usage.totalTokens} tokens in ${outcome.usage.turns} turn(s)${cost}`);
+    }
+    if (outcome.cache) {
+        const list = (directories: string[]) => directories.length ? directories.join(', ') : 'none';
+        console.log(`Cache: mirror ${outcome.cache.mirror || 'not used'}; restored ${list(outcome.cache.restored)}; saved ${list(outcome.cache.saved)}`);
+    }
+}
+
+async function runCommand(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'commit': { type: 'string', default: 'HEAD' },
+            'ssh-key': { type: 'string' },
+            'no-submodules': { type: 'boolean', default: false },
+            'lfs': { type: 'boolean', default: false },
+            'provider': { type: 'string', default: 'openai' },
+            'model': { type: 'string' },
+            'base-url': { type: 'string' },
+            'config': { type: 'string' },
+            'max-turns': { type: 'string' },
+            'max-tokens': { type: 'string' },
+            'max-cost': { type: 'string' },
+            'max-duration': { type: 'string' },
+            'context-budget': { type: 'string' },
+            'sandbox': { type: 'string', default: 'local' },
+            'no-network': { type: 'boolean', default: false },
+            'detection': { type: 'string', default: 'hint' },
+            'no-recipes': { type: 'boolean', default: false },
+            'env': { type: 'string', multiple: true },
+            'secret': { type: 'string', multiple: true },
+            'cache': { type: 'boolean', default: false },
+            'cache-dir': { type: 'string' },
+            'keep': { type: 'boolean', default: false },
+            'json': { type: 'boolean', default: false },
+        },
+    });
+
+    const repoUrl = positionals[0];
+    if (!repoUrl) throw new UsageError("Missing <repo-url>.");
+    const provider = values.provider as LLMProviderName;
+    if (!PROVIDERS.includes(provider)) throw new UsageError(`Unknown provider '${values.provider}'.`);
+    const maxTurns = parsePositiveInteger(values['max-turns'], '--max-turns');
+    const contextBudget = parsePositiveInteger(values['context-budget'], '--context-budget');
+    const maxDuration = parsePositiveInteger(values['max-duration'], '--max-duration');
+    const budget: BudgetOptions = {
+        maxTokens: parsePositiveInteger(values['max-tokens'], '--max-tokens'),
+        maxCostUsd: parsePositiveNumber(values['max-cost'], '--max-cost'),
+        maxDurationMs: maxDuration === undefined ? undefined : maxDuration * 1000,
+    };
+    const sandboxBackend = values.sandbox as SandboxOptions['backend'];
+    if (!SANDBOX_BACKENDS.includes(sandboxBackend)) throw new UsageError(`Unknown sandbox backend '${values.sandbox}'.`);
+    const detection = values.detection as RunOptions['detection'];
+    if (!DETECTION_MODES.includes(detection)) throw new UsageError(`Unknown detection mode '${values.detection}'.`);
+
+    if (values.json) logger.setLogTarget('stderr');
+
+    const llm: LLMOptions = {
+        provider,
+        model: values.model,
+        apiKey: resolveApiKey(provider),
+        baseURL: values['base-url'] || process.env.LLM_BASE_URL || (provider === 'azure' ? process.env.AZURE_OPENAI_ENDPOINT : undefined),
+    };
+
+    const outcome = await cloneAndRun({
+        repoUrl,
+        commitHash: values.commit,
+        githubToken: process.env.GITHUB_TOKEN || null,
+        git: {
+            submodules: !values['no-submodules'],
+            lfs: values.lfs,
+            auth: { token: process.env.GIT_TOKEN || undefined, sshKeyPath: values['ssh-key'] },
+        },
+        llm,
+        maxTurns,
+        configFile: values.config,
+        context: contextBudget ? { maxTokens: contextBudget } : undefined,
+        budget,
+        sandbox: { backend: sandboxBackend, network: !values['no-network'] },
+        detection,
+        recipes: values['no-recipes'] ? false : undefined,
+        cache: values['cache-dir'] ? { dir: values['cache-dir'] } : values.cache,
+        env: parseEnvAssignments(values.env),
+        secrets: readSecretVariables(values.secret),
+        outputToLog: values.keep,
+    });
+
+    if (values.keep && outcome.status === 'success') {
+        // Only the tracked services are registered for 'ps' and 'stop'; nothing else may outlive the run
+        await terminateUntrackedProcesses(outcome.repoPath);
+        for (const processInfo of listTrackedServices(outcome.repoPath)) {
+            const endpoint = outcome.endpoints?.find(candidate => candidate.serviceName === processInfo.serviceName);
+            await registerProcess({
+                pid: processInfo.pid,
+                command: processInfo.command,
+                serviceName: processInfo.serviceName,
+                repoPath: outcome.repoPath,
+                repoUrl,
+                commitHash: values.commit,
+                url: endpoint ? endpoint.url : outcome.url,
+                startedAt: new Date().toISOString(),
+            });
+        }
+    } else if (outcome.repoPath !== 'unknown') {
+        // 'unknown' means the run failed before a checkout existed.
+        // Failed runs are cleaned up even with --keep: 'ps' and 'stop' only know registered processes.
+        if (values.keep) logger.warn("The run failed: stopping its processes and deleting its checkout despite --keep.");
+        await cleanupRepo(outcome.repoPath, runningProcesses);
+        delete outcome.logDir; // Deleted with the checkout
+    }
+
+    printOutcome(outcome, values.json);
+    return exitCodeFor(outcome);
+}
+
+async function psCommand(argv: string[]): Promise<number> {
+    const { values } = parseArgs({ args: argv, options: { 'json': { type: 'boolean', default: false } } });
+    const entries = await listRegisteredProcesses();
+    if (values.json) {
+        process.stdout.write(JSON.stringify(entries, null, 2) + '\n');
+    } else if (entries.length === 0) {
+        console.log("No kept processes are running.");
+    } else {
+        for (const entry of entries) {
+            console.log(`${entry.pid}\t${entry.serviceName || DEFAULT_SERVICE_NAME}\t${entry.url || '-'}\t${entry.repoUrl}#${entry.commitHash}\t${entry.command}\t${entry.repoPath}`);
+        }
+    }
+    return EXIT_SUCCESS;
+}
+
+async function stopCommand(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'all': { type: 'boolean', default: false },
+            'keep-files': { type: 'boolean', default: false },
+        },
+    });
+
+    const entries = await listRegisteredProcesses();
+    let targets: RegisteredProcess[];
+    if (values.all) {
+        targets = entries;
+    } else {
+        if (positionals.length === 0) throw new UsageError("Specify one or more PIDs, or --all.");
+        const pids = positionals.map(Number);
+        const unknown = pids.filter(pid => !entries.some(entry => entry.pid === pid));
+        if (unknown.length > 0) {
+            logger.error(`Not a kept repo-runner process: ${unknown.join(', ')}`);
+            return EXIT_UNRUNNABLE;
+        }
+        targets = entries.filter(entry => pids.includes(entry.pid));
+    }
+
+    for (const entry of targets) {
+        // Reuse the normal teardown path with a one-entry process map
+        const serviceName = entry.serviceName || DEFAULT_SERVICE_NAME;
+        const processMap: TrackedProcesses = new Map([[entry.repoPath, new Map<string, ProcessInfo>([[serviceName, { pid: entry.pid, command: entry.command, serviceName }]])]]);
+        // Other services of the same checkout may still be kept running
+        const sharesCheckout = entries.some(other => other.repoPath === entry.repoPath && !targets.includes(other));
+        if (values['keep-files'] || sharesCheckout) {
+            await terminateTrackedProcess(entry.repoPath, processMap);
+        } else {
+            await cleanupRepo(entry.repoPath, processMap);
+        }
+        await unregisterProcess(entry.pid);
+        console.log(`Stopped PID ${entry.pid} (${entry.repoUrl}#${entry.commitHash}).`);
+    }
+    return EXIT_SUCCESS;
+}
+
+async function serveCommand(argv: string[]): Promise<number> {
+    const { values } = parseArgs({
+        args: argv,
+        options: {
+            'port': { type: 'string' },
+            'host': { type: 'string' },
+            'concurrency': { type: 'string' },
+        },
+    });
+
+    const service = await startRunService({
+        port: parsePositiveInteger(values.port, '--port'),
+        host: values.host,
+        concurrency: parsePositiveInteger(values.concurrency, '--concurrency'),
+        defaults: { openaiApiKey: process.env.OPENAI_API_KEY, githubToken: process.env.GITHUB_TOKEN || null },
+    });
+
+    await new Promise<void>(resolve => {
+        process.once('SIGINT', resolve);
+        process.once('SIGTERM', resolve);
+    });
+    await service.close();
+    return EXIT_SUCCESS;
+}
+
+async function batchCommand(argv: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'concurrency': { type: 'string' },
+            'format': { type: 'string', default: 'markdown' },
+            'output': { type: 'string' },
+            'input-format': { type: 'string' },
+            'port-base': { type: 'string' },
+            'keep-files': { type: 'boolean', default: false },
+            'provider': { type: 'string', default: 'openai' },
+            'model': { type: 'string' },
+            'base-url': { type: 'string' },
+            'max-turns': { type: 'string' },
+            'cache': { type: 'boolean', default: false },
+            'cache-dir': { type: 'string' },
+        },
+    });
+
+    const file = positionals[0];
+    if (!file) throw new UsageError("Missing <file>.");
+    const format = values.format as BatchReportFormat;
+    if (!REPORT_FORMATS.includes(format)) throw new UsageError(`Unknown report format '${values.format}'.`);
+    const inputFormat = values['input-format'] as BatchInputFormat | undefined;
+    if (inputFormat && !INPUT_FORMATS.includes(inputFormat)) throw new UsageError(`Unknown input format '${values['input-format']}'.`);
+    const provider = values.provider as LLMProviderName;
+    if (!PROVIDERS.includes(provider)) throw new UsageError(`Unknown provider '${values.provider}'.`);
+
+    // The report goes to stdout unless written to a file
+    if (!values.output) logger.setLogTarget('stderr');
+    const entries = await readBatchFile(file, inputFormat);
+
+    const abortController = new AbortController();
+    const abort = () => abortController.abort();
+    process.once('SIGINT', abort);
+    process.once('SIGTERM', abort);
+    let report: BatchReport;
+    try {
+        report = await runBatch(entries, {
+            concurrency: parsePositiveInteger(values.concurrency, '--concurrency'),
+            portBase: parsePositiveInteger(values['port-base'], '--port-base'),
+            keepFiles: values['keep-files'],
+            signal: abortController.signal,
+            defaults: {
+                llm: {
+                    provider,
+                    model: values.model,
+                    apiKey: resolveApiKey(provider),
+                    baseURL: values['base-url'] || process.env.LLM_BASE_URL || (provider === 'azure' ? process.env.AZURE_OPENAI_ENDPOINT : undefined),
+                },
+                githubToken: process.env.GITHUB_TOKEN || null,
+                git: { auth: { token: process.env.GIT_TOKEN || undefined } },
+                maxTurns: parsePositiveInteger(values['max-turns'], '--max-turns'),
+                cache: values['cache-dir'] ? { dir: values['cache-dir'] } : values.cache,
+            },
+        });
+    } finally {
+        process.off('SIGINT', abort);
+        process.off('SIGTERM', abort);
+    }
+
+    const rendered = formatBatchReport(report, format);
+    if (values.output) {
+        await fs.writeFile(values.output, rendered);
+        console.log(`Report written to ${values.output}: ${report.succeeded} of ${report.total} runnable.`);
+    } else {
+        process.stdout.write(rendered);
+    }
+    return report.failed === 0 ? EXIT_SUCCESS : EXIT_UNRUNNABLE;
+}
+
+export async function main(argv: string[] = process.argv.slice(2)): Promise<number> {
+    dotenv.config();
+    const [command, ...rest] = argv;
+    try {
+        switch (command) {
+            case 'run':
+                return await runCommand(rest);
+            case 'ps':
+                return await psCommand(rest);
+            case 'stop':
+                return await stopCommand(rest);
+            case 'serve':
+                return await serveCommand(rest);
+            case 'batch':
+                return await batchCommand(rest);
+            case undefined:
+            case '-h':
+            case '--help':
+                console.log(USAGE);
+                return command ? EXIT_SUCCESS : EXIT_USAGE;
+            default:
+                throw new UsageError(`Unknown command '${command}'.`);
+        }
+    } catch (error: any) {
+        if (error instanceof UsageError || error.code?.startsWith('ERR_PARSE_ARGS')) {
+            console.error(`${error.message}\n\n${USAGE}`);
+            return EXIT_USAGE;
+        }
+        if (error instanceof ConfigError || error instanceof BatchInputError) {
+            console.error(error.message);
+            return EXIT_USAGE;
+        }
+        logger.error(`repo-runner failed: ${error.message}`, error);
+        return EXIT_INTERNAL_ERROR;
+    }
+}
+
+if (require.main === module) {
+    // Exit explicitly: detached children kept with --keep would otherwise hold the event loop open
+    main().then(code => process.exit(code));
+}
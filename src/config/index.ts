@@ -1,36 +1,296 @@
 import path from 'path';
 import os from 'os';
+import { RunEventEmitter } from '../core/events';
+import { RunSession, SessionStatus } from '../process/session';
+import { ExecutionBackend } from '../process/backends/types';
 
 export const AGENT_NAME = "RepoRunnerAgent";
 
 // --- Behavior Configuration ---
+// Defaults of RunConfig. Runs read the resolved per-run RunConfig (see config/loader.ts), not these constants.
 export const MAX_FILE_CONTENT_LENGTH = 5000;
 export const MAX_DIR_LISTING_DEPTH = 3;
 export const MAX_DIR_ITEMS = 100;
+
+export const DEFAULT_IGNORED_PATHS = ['node_modules', '.DS_Store', '.next', '.vercel']; // Skipped even without a .gitignore (.git always is)
+
+// --- Repository Exploration Tools (listDirectory, searchFiles) ---
+export const LIST_DIRECTORY_DEFAULT_DEPTH = 2;
+export const LIST_DIRECTORY_MAX_DEPTH = 10;
+export const LIST_DIRECTORY_MAX_ITEMS = 500;
+export const SEARCH_MAX_RESULTS = 50; // Default number of matches returned
+export const SEARCH_MAX_FILES = 5000; // Files scanned per search
+export const SEARCH_MAX_FILE_SIZE = 1024 * 1024; // Larger files are skipped
+export const SEARCH_MAX_CONTEXT_LINES = 10;
 export const DEFAULT_COMMAND_TIMEOUT = 120000; // 2 minutes
-export const SERVER_START_TIMEOUT = 30000; // 30 seconds
+export const SERVER_START_TIMEOUT = 30000; // 30 seconds (upper bound; startup resolves as soon as the app listens)
+export const STARTUP_POLL_INTERVAL = 250; // ms between /proc socket checks while a long-running command starts
+export const PROCESS_KILL_GRACE_PERIOD = 5000; // ms between SIGTERM and SIGKILL when stopping a process tree
+export const PROCESS_KILL_POLL_INTERVAL = 100; // ms between checks whether terminated processes are gone
+export const PROCESS_GROUP_CHECK_INTERVAL = 1000; // ms between checks whether the group of an exited detached process is empty
 export const MAX_LLM_TURNS = 15;
 export const MAX_TOOL_RESULT_LENGTH = 4000;
 export const MAX_LOG_OUTPUT_LENGTH = 500;
+export const PROCESS_OUTPUT_MAX_LINES = 1000; // Recent output lines kept per tracked background process
+
+// --- Context Compaction ---
+export const CONTEXT_DEFAULT_MAX_TOKENS = 60000; // Estimated prompt tokens (messages + tool definitions) before compaction
+export const CONTEXT_KEEP_RECENT_TURNS = 4; // Most recent assistant turns that are never summarized
+export const CONTEXT_CHARS_PER_TOKEN = 4; // Rough estimate; no tokenizer dependency
+export const CONTEXT_MESSAGE_OVERHEAD_TOKENS = 4; // Role and framing tokens per message
+export const CONTEXT_STALE_RESULT_LENGTH = 300; // Older tool results are cut to this many characters
+export const CONTEXT_SUMMARY_MAX_LINES = 60; // Lines of the running "what has been tried" note
+export const CONTEXT_SUMMARY_HEADER = "[Context summary] Earlier turns were compacted to save context. What has been tried so far:";
+
+// --- Run Sessions (keepAlive) ---
+export const SESSION_WATCHDOG_MAX_RESTARTS = 3;
+export const SESSION_RESTART_DELAY = 2000; // 2 seconds before an automatic restart
 
-// --- OpenAI Configuration ---
-// Note: API Key should ideally be passed in, not hardcoded/read from env here directly
+// --- Readiness Probe Defaults (markRunning) ---
+export const PROBE_MAX_ATTEMPTS = 5;
+export const PROBE_INITIAL_DELAY = 1000; // 1 second, doubled after each failed attempt
+export const PROBE_BACKOFF_FACTOR = 2;
+export const PROBE_REQUEST_TIMEOUT = 5000; // 5 seconds per request
+export const PROBE_ACCEPTED_STATUS = { min: 200, max: 399 };
+
+// --- LLM Configuration ---
+// Note: API keys should be passed in through RunOptions, not hardcoded/read from env here directly
 export const LLM_MODEL = "gpt-4o";
+export const DEFAULT_LLM_MODELS: Record<LLMProviderName, string> = {
+    'openai': LLM_MODEL,
+    'azure': LLM_MODEL, // Azure routes by deployment; the model name is informational
+    'anthropic': "claude-3-7-sonnet-latest",
+    'openai-compatible': "llama3.1",
+};
+export const ANTHROPIC_MAX_TOKENS = 4096;
+
+// --- Usage & Cost ---
+// USD per million tokens. Models are matched exactly, then by the longest prefix (e.g. dated snapshots).
+// Extend or override through RunOptions.prices; models without a price report a null cost.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+    'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+    'gpt-4.1-nano': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'o3-mini': { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+    'claude-3-7-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4 },
+    'claude-3-opus': { inputPerMillion: 15, outputPerMillion: 75 },
+};
+export const AZURE_OPENAI_API_VERSION = "2024-10-21";
 
 // --- Temporary Directory Prefix ---
 export const TEMP_DIR_PREFIX = path.join(os.tmpdir(), 'repoRunner-');
 
+// --- Git Checkout ---
+export const GIT_FETCH_DEPTH = 1; // Depth of the targeted fetch of a branch, tag or full SHA
+export const GIT_DEEPEN_STEPS = [50, 500]; // History depths tried when a SHA cannot be fetched directly, before --unshallow
+
+// --- Clone Mirror & Dependency Cache (RunOptions.cache) ---
+export const CACHE_DIR = path.join(os.homedir(), '.repo-runner', 'cache');
+export const CACHE_MIRROR_MAX_BYTES = 5 * 1024 ** 3; // Least recently used mirrors are evicted beyond this
+export const CACHE_DEPENDENCY_MAX_BYTES = 10 * 1024 ** 3; // Least recently used dependency entries are evicted beyond this
+export const CACHE_LOCK_TIMEOUT = 10 * 60 * 1000; // Wait for another run updating the same mirror at most this long
+export const CACHE_LOCK_STALE_AFTER = 60 * 60 * 1000; // Locks older than this are considered abandoned
+export const CACHE_LOCK_POLL_INTERVAL = 500;
+// Cached dependency directories, each keyed by the lockfiles present at the repository root
+export const DEPENDENCY_CACHE_KINDS: DependencyCacheKind[] = [
+    { directory: 'node_modules', lockfiles: ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock'] },
+    { directory: '.venv', lockfiles: ['poetry.lock', 'uv.lock', 'Pipfile.lock', 'pdm.lock', 'requirements.txt', 'requirements-dev.txt'], relocatable: true },
+    { directory: 'target', lockfiles: ['Cargo.lock'] },
+];
+
+// --- Secret Redaction ---
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
+export const SECRET_MIN_LENGTH = 6; // Shorter registered values are not masked
+
+// --- Layered Run Configuration ---
+export const CONFIG_FILE_NAME = 'repo-runner.config.json'; // Looked up in the working directory
+export const CONFIG_FILE_ENV_VAR = 'REPO_RUNNER_CONFIG'; // Path of the config file
+export const CONFIG_ENV_PREFIX = 'REPO_RUNNER_'; // e.g. REPO_RUNNER_MAX_TURNS=20
+export const DEFAULT_RUN_CONFIG: RunConfig = {
+    model: null,
+    maxTurns: MAX_LLM_TURNS,
+    commandTimeout: DEFAULT_COMMAND_TIMEOUT,
+    serverStartTimeout: SERVER_START_TIMEOUT,
+    maxFileContentLength: MAX_FILE_CONTENT_LENGTH,
+    maxToolResultLength: MAX_TOOL_RESULT_LENGTH,
+    tempDirPrefix: TEMP_DIR_PREFIX,
+    ignoredPaths: DEFAULT_IGNORED_PATHS,
+    maxDirListingDepth: MAX_DIR_LISTING_DEPTH,
+    maxDirItems: MAX_DIR_ITEMS,
+};
+
+// --- Sandboxed Execution Backends ---
+export const SANDBOX_DEFAULT_IMAGE = 'node:20-bookworm';
+export const SANDBOX_WORKDIR = '/workspace'; // Repository mount point inside containers
+export const SANDBOX_DEFAULT_PORTS = [3000, 3001, 4000, 4200, 5000, 5173, 8000, 8080, 8888]; // Published by container backends
+export const SANDBOX_ENV_PASSTHROUGH = ['LANG', 'LC_ALL', 'TZ', 'TERM']; // Host variables safe to pass to isolated backends
+// Credential files/directories under $HOME masked by the bubblewrap backend
+export const SANDBOX_HIDDEN_HOME_PATHS = ['.ssh', '.aws', '.azure', '.config/gcloud', '.config/gh', '.docker', '.kube', '.npmrc', '.pypirc', '.netrc', '.git-credentials', '.gitconfig'];
+
+// --- Service Mode (`repo-runner serve`) ---
+export const SERVICE_DEFAULT_PORT = 7070;
+export const SERVICE_DEFAULT_HOST = '127.0.0.1';
+export const SERVICE_MAX_CONCURRENT_RUNS = 2;
+export const SERVICE_MAX_BODY_SIZE = 1024 * 1024; // 1 MB
+export const SERVICE_RUN_RETENTION = 60 * 60 * 1000; // ms a finished run (and the app it left running) is kept before eviction
+export const SERVICE_MAX_FINISHED_RUNS = 100; // Older finished runs are evicted beyond this many
+
+// --- Batch Runs (`repo-runner batch`) ---
+export const BATCH_DEFAULT_CONCURRENCY = 2;
+export const BATCH_PORT_BASE = 20000; // First port of the first concurrent run's range
+export const BATCH_PORTS_PER_RUN = 20; // Size of each concurrent run's port range
+
+// --- Registry of processes kept running after the CLI exits (`repo-runner run --keep`) ---
+export const PROCESS_REGISTRY_PATH = path.join(os.tmpdir(), 'repoRunner-processes.json');
+
+// --- Run Recipes (successful tool sequences replayed on later commits) ---
+export const RECIPE_VERSION = 1;
+export const RECIPE_STORE_DIR = path.join(os.homedir(), '.repo-runner', 'recipes');
+export const RECIPE_REPO_FILE = '.reporunner.json'; // Recipe committed to the repository itself (read-only)
+
+// --- Command Logs (complete output of every command, paged by the readCommandLog tool) ---
+export const COMMAND_LOG_ROOT = path.join(os.tmpdir(), 'repoRunner-logs');
+export const COMMAND_LOG_PAGE_LINES = 200; // Default lines per readCommandLog page
+export const COMMAND_LOG_MAX_PAGE_LINES = 1000;
+export const COMMAND_LOG_MAX_LINE_LENGTH = 500; // Longer lines are clipped in readCommandLog results
+
+// --- Services (named long-running processes per repository) ---
+export const DEFAULT_SERVICE_NAME = 'default';
+
 // --- Type Definitions (Optional but helpful) ---
 export interface ProcessInfo {
     pid: number;
     command: string;
+    serviceName?: string; // Name of the service this process runs (DEFAULT_SERVICE_NAME if unnamed)
+    executable?: string; // Command and args as spawned, needed to restart the process
+    args?: string[];
+    startedAt?: string;
+    output?: string[]; // Rolling buffer of recent stdout/stderr lines
 }
 
+export interface ProbeResult {
+    url: string;
+    ok: boolean;
+    statusCode: number | null;
+    latencyMs: number | null;
+    title: string | null; // <title> of the page, if HTML
+    headers: Record<string, string>;
+    attempts: number;
+    socketOwnedByProcess: boolean | null; // null when it could not be determined
+    error?: string;
+}
+
+export type FailureReason =
+    | 'unrunnable' // The model called markUnrunnable
+    | 'max_turns' // Turn limit reached without a conclusion
+    | 'no_response' // The model returned nothing usable
+    | 'cancelled' // Aborted through RunOptions.signal
+    | 'token_budget' // RunOptions.budget.maxTokens exhausted
+    | 'cost_budget' // RunOptions.budget.maxCostUsd exhausted
+    | 'time_budget' // RunOptions.budget.maxDurationMs exceeded
+    | 'error'; // Internal error during orchestration
+
 export interface FinalOutcome {
     status: 'success' | 'failure';
+    failureReason?: FailureReason; // Set when status is 'failure'
     url: string | null;
     notes: string;
     repoPath: string; // Include the path for potential external cleanup if needed
+    probe?: ProbeResult; // HTTP readiness verification of `url` (success only)
+    session?: RunSession; // Live handle to the running app (success with RunOptions.keepAlive only)
+    policyDecisions?: PolicyDecision[]; // Audit log of command policy decisions, in order
+    changes?: AgentChanges; // Files the agent created or modified, with a diff against the checked-out commit
+    plan?: RunPlan | null; // Run plan detected from the repository files (unless detection is 'off')
+    logDir?: string; // Complete output of every command of the run, one file per command. Left out once cleanupRepo deleted it
+    endpoints?: ServiceEndpoint[]; // Every verified URL, labeled by service; the first one is `url`
+    recipe?: RecipeReport; // Present when a saved recipe was replayed or a new one was saved
+    usage?: UsageReport; // LLM tokens and cost of the run
+    cache?: CacheReport; // Present when RunOptions.cache is enabled
+}
+
+export interface ModelPrice {
+    inputPerMillion: number; // USD per million prompt tokens
+    outputPerMillion: number; // USD per million completion tokens
+}
+
+export interface UsageReport {
+    model: string;
+    turns: number; // LLM calls made
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    costUsd: number | null; // null when no price is known for the model
+    durationMs: number; // Wall-clock time of the whole run
+}
+
+/**
+ * Hard caps for a run. Token and cost caps are checked before every LLM call; the time cap is
+ * also checked before every tool call. A running command is not interrupted.
+ */
+export interface BudgetOptions {
+    maxTokens?: number; // Prompt + completion tokens over all turns
+    maxCostUsd?: number; // Requires a price for the model (see DEFAULT_MODEL_PRICES / RunOptions.prices)
+    maxDurationMs?: number; // Wall-clock time since the run started
+}
+
+export interface ServiceEndpoint {
+    serviceName: string | null; // null if the model did not say which service serves the URL
+    url: string;
+    pid: number | null; // Tracked process of the service, if any
+    probe?: ProbeResult;
+}
+
+/**
+ * Snapshot of a tracked service, as reported by the listServices tool.
+ */
+export interface ServiceStatus {
+    serviceName: string;
+    pid: number;
+    command: string;
+    startedAt: string | null;
+    ports: number[] | null; // Listening TCP ports of the process tree; null if they cannot be determined
+    recentOutput: string[];
+}
+
+export interface RecipeReport {
+    source: string | null; // Recipe file that was replayed, if any
+    replayedSteps: number; // Steps that succeeded before the LLM took over (or all of them)
+    failedStep: number | null; // 1-based index of the step that failed; null when the replay succeeded
+    savedTo?: string; // Recipe file written after a successful run
+}
+
+export type RecipeTool = 'runCommand' | 'createFile' | 'editFile' | 'patchFile' | 'stopService' | 'restartService' | 'setEnv';
+
+export interface RecipeStep {
+    tool: RecipeTool;
+    arguments: Record<string, any>;
+}
+
+/**
+ * Versioned sequence of successful state-changing tool calls that got a repository running.
+ */
+export interface Recipe {
+    version: number;
+    repoUrl: string;
+    commitHash: string; // Commit the recipe was last verified on
+    updatedAt: string;
+    steps: RecipeStep[];
+    markRunning: { deploymentUrl: string; serviceName?: string; additionalUrls?: { serviceName: string; url: string }[]; notes?: string };
+}
+
+export interface RecipeOptions {
+    storeDir?: string; // Default: RECIPE_STORE_DIR
+    replay?: boolean; // Replay an existing recipe before involving the LLM (default: true)
+    save?: boolean; // Save the successful tool sequence after the run (default: true)
+}
+
+export interface AgentChanges {
+    files: string[]; // Relative to the repository root
+    diff: string; // Combined unified diff against HEAD
 }
 
 export interface ToolResult {
@@ -47,12 +307,264 @@ export interface ToolResult {
     detectedPort?: string | null; // For runCommand (long-running)
     notes?: string; // For runCommand feedback
     error?: string; // General error message
+    probe?: ProbeResult; // For markRunning (failed readiness probe)
+    serviceName?: string; // For runCommand (long-running), stopService, restartService
+    logId?: string; // For runCommand: complete output, readable with readCommandLog
+    totalLines?: number; // For readCommandLog, inspectFile
+    nextOffset?: number | null; // For readCommandLog (line), inspectFile (character offset)
+    matches?: number; // For readCommandLog with grep, searchFiles
+    filesSearched?: number; // For searchFiles
+    truncated?: boolean; // For searchFiles, listDirectory: limits cut the result short
+    services?: ServiceStatus[]; // For listServices
+    variables?: Record<string, string>; // For getEnv: variables visible to the model
+    secrets?: string[]; // For getEnv: names of the injected secrets (values are never returned)
+    policy?: Pick<PolicyDecision, 'ruleId' | 'action' | 'reason'>; // For runCommand (blocked by policy)
     finalOutcome?: Omit<FinalOutcome, 'repoPath'>; // For markRunning/markUnrunnable
 }
 
+export type LLMProviderName = 'openai' | 'anthropic' | 'azure' | 'openai-compatible';
+
+export interface LLMOptions {
+    provider: LLMProviderName;
+    model?: string; // Defaults to DEFAULT_LLM_MODELS[provider]
+    apiKey?: string;
+    baseURL?: string; // Azure endpoint, or the base URL of an OpenAI-compatible server (e.g. Ollama, vLLM)
+    apiVersion?: string; // Azure only
+    deployment?: string; // Azure only
+}
+
+export interface CassetteOptions {
+    mode: 'record' | 'replay'; // record: write LLM turns and tool results; replay: serve them offline
+    path: string; // Cassette JSON file
+}
+
+export interface ReadinessProbeOptions {
+    maxAttempts?: number;
+    initialDelay?: number; // ms before the first retry
+    backoffFactor?: number;
+    requestTimeout?: number; // ms per request
+    acceptedStatus?: { min: number; max: number };
+    expectedBodyText?: string; // Substring the response body must contain
+    verifySocketOwnership?: boolean; // Require the tracked process tree to own the port (Linux only). Default: true
+}
+
+/**
+ * How long-running commands are judged to have started.
+ */
+export interface StartupOptions {
+    timeout?: number; // ms to wait for a listening socket or ready pattern. Default: RunConfig.serverStartTimeout
+    readyPatterns?: string[]; // Regexes (case-insensitive) matched against the output; a match means started
+    socketDetection?: boolean; // Watch the process tree for listening TCP sockets (Linux only). Default: true
+    pollInterval?: number; // ms between socket checks. Default: STARTUP_POLL_INTERVAL
+}
+
+export interface WatchdogOptions {
+    enabled?: boolean; // Watch for the app dying after startup. Default: true
+    restartOnCrash?: boolean; // Restart automatically instead of only reporting. Default: false
+    maxRestarts?: number; // Defaults to SESSION_WATCHDOG_MAX_RESTARTS
+    onCrash?: (status: SessionStatus) => void;
+}
+
+export interface SandboxOptions {
+    backend: 'local' | 'bubblewrap' | 'docker' | 'podman';
+    binary?: string; // Override the backend executable path
+    image?: string; // Container image (docker/podman). Defaults to SANDBOX_DEFAULT_IMAGE
+    network?: boolean; // false disables networking inside the sandbox. Default: true
+    ports?: number[]; // Ports published to the host (docker/podman). Defaults to SANDBOX_DEFAULT_PORTS
+    allowEnv?: string[]; // Extra host environment variable names passed into the sandbox
+}
+
+export type PolicyAction = 'allow' | 'deny' | 'require_approval';
+
+export interface PolicyRule {
+    id: string;
+    action: PolicyAction;
+    description: string; // Explains the rule; returned to the model when a command is denied
+    command?: string | string[]; // Executable name(s), compared against the basename of the command
+    argsPattern?: string; // Regex tested against the arguments joined by spaces
+    pattern?: string; // Regex tested against the full command line
+}
+
+export interface CommandPolicy {
+    rules?: PolicyRule[]; // Evaluated in order after the built-in rules; first match wins
+    defaultAction?: PolicyAction; // When no rule matches. Default: 'allow'
+    useDefaultRules?: boolean; // Include DEFAULT_POLICY_RULES. Default: true
+}
+
+export interface PolicyDecision {
+    timestamp: string;
+    command: string;
+    args: string[];
+    action: 'allow' | 'deny'; // Effective action after any approval
+    ruleId: string | null; // null when the default action applied
+    reason: string;
+    approval?: 'approved' | 'rejected' | 'unavailable';
+}
+
+export interface ApprovalRequest {
+    command: string;
+    args: string[];
+    repoPath: string;
+    rule: PolicyRule | null; // null when no rule matched and the default action requires approval
+}
+
+export type ApprovalHandler = (request: ApprovalRequest) => Promise<boolean>;
+
+export interface PlanCommand {
+    command: string;
+    args: string[];
+}
+
+/**
+ * How to run a repository, derived from its files without the LLM.
+ */
+export interface RunPlan {
+    ecosystem: 'node' | 'python' | 'go' | 'rust' | 'make' | 'procfile' | 'docker';
+    confidence: number; // 0..1
+    install: PlanCommand[];
+    build: PlanCommand[];
+    start: PlanCommand | null; // Long-running command, if one could be determined
+    expectedPort: number | null;
+    evidence: string[]; // Files and facts the plan is based on
+}
+
+/**
+ * Behavior settings of a single run, resolved from (lowest to highest precedence) DEFAULT_RUN_CONFIG,
+ * the config file, REPO_RUNNER_* environment variables and RunOptions.
+ */
+export interface RunConfig {
+    model: string | null; // LLM model; null uses the provider default (DEFAULT_LLM_MODELS). RunOptions.llm.model wins
+    maxTurns: number;
+    commandTimeout: number; // ms, for commands that are not long-running
+    serverStartTimeout: number; // ms, upper bound for the startup of long-running commands
+    maxFileContentLength: number; // Characters returned by one inspectFile call
+    maxToolResultLength: number; // Characters of a tool result sent back to the model
+    tempDirPrefix: string; // Checkouts are created with mkdtemp(tempDirPrefix)
+    ignoredPaths: string[]; // File and directory names hidden from listings and searches
+    maxDirListingDepth: number; // Initial directory listing sent to the model
+    maxDirItems: number;
+}
+
+export interface GitAuthOptions {
+    token?: string | null; // HTTPS token for the repository host. Default: RunOptions.githubToken
+    username?: string; // User paired with the token. Default by host: GitHub 'x-access-token', GitLab 'oauth2', Bitbucket 'x-token-auth', else 'git'
+    sshKeyPath?: string; // Private key for ssh:// and user@host:path URLs
+}
+
+export interface GitSourceOptions {
+    submodules?: boolean; // Initialize submodules recursively. Default: true
+    lfs?: boolean; // Run 'git lfs pull' after checkout (requires git-lfs). Default: false
+    auth?: GitAuthOptions;
+}
+
+export interface CacheOptions {
+    dir?: string; // Default: CACHE_DIR
+    mirror?: boolean; // Keep a bare mirror per repository and check out from it. Default: true
+    dependencies?: boolean; // Restore/save node_modules, .venv and target keyed by lockfile hash. Default: true
+    maxMirrorBytes?: number; // Default: CACHE_MIRROR_MAX_BYTES
+    maxDependencyBytes?: number; // Default: CACHE_DEPENDENCY_MAX_BYTES
+}
+
+export interface DependencyCacheKind {
+    directory: string; // Relative to the repository root
+    lockfiles: string[];
+    relocatable?: boolean; // Contains absolute paths of the checkout that are rewritten on restore (virtualenvs)
+}
+
+export interface CacheReport {
+    mirror: string | null; // Mirror the checkout was made from
+    restored: string[]; // Dependency directories restored before the agent started (e.g. 'node_modules')
+    saved: string[]; // Dependency directories stored after the run
+}
+
+export interface PortRange {
+    start: number; // Exported to commands as PORT
+    end: number; // Inclusive
+}
+
+export interface BatchOptions {
+    concurrency?: number; // Runs executed at the same time. Default: BATCH_DEFAULT_CONCURRENCY
+    portBase?: number; // Default: BATCH_PORT_BASE
+    portsPerRun?: number; // Default: BATCH_PORTS_PER_RUN
+    defaults?: Partial<RunOptions>; // Merged under every entry (e.g. llm, API keys)
+    keepFiles?: boolean; // Keep each run's checkout on disk. Default: false
+    signal?: AbortSignal; // Cancels queued entries and aborts running ones
+    onResult?: (result: BatchEntryResult) => void; // Called as each entry finishes
+}
+
+export interface BatchEntryResult {
+    index: number; // Position in the input
+    repoUrl: string;
+    commitHash: string;
+    status: 'success' | 'failure';
+    failureReason: FailureReason | null;
+    url: string | null;
+    notes: string;
+    durationMs: number;
+    turns: number; // LLM turns
+    costUsd: number | null;
+    ports: PortRange | null; // null if the entry was cancelled before it started
+    outcome: FinalOutcome;
+}
+
+export interface BatchReport {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    total: number;
+    succeeded: number;
+    failed: number;
+    results: BatchEntryResult[]; // In input order
+}
+
+export interface ContextOptions {
+    maxTokens?: number; // Estimated prompt token budget. Default: CONTEXT_DEFAULT_MAX_TOKENS
+    keepRecentTurns?: number; // Default: CONTEXT_KEEP_RECENT_TURNS
+}
+
 export interface RunOptions {
     repoUrl: string;
     commitHash: string;
-    openaiApiKey: string;
+    openaiApiKey?: string; // Used when `llm` is omitted or targets OpenAI without its own apiKey
     githubToken?: string | null;
+    git?: GitSourceOptions; // Submodules, LFS and authentication for the checkout
+    cache?: CacheOptions | boolean; // Clone mirror and dependency cache shared across runs. Default: disabled
+    llm?: LLMOptions;
+    cassette?: CassetteOptions;
+    maxTurns?: number; // Shorthand for config.maxTurns
+    config?: Partial<RunConfig>; // Highest-precedence configuration layer
+    configFile?: string | false; // Config file to load. Default: $REPO_RUNNER_CONFIG, else ./repo-runner.config.json if present
+    readiness?: ReadinessProbeOptions | false; // false disables probing in markRunning
+    startup?: StartupOptions; // Startup detection for long-running commands
+    events?: RunEventEmitter; // Receives typed progress events during the run
+    signal?: AbortSignal; // Aborts the run between steps (outcome failureReason: 'cancelled')
+    keepAlive?: boolean | { watchdog?: WatchdogOptions }; // Return a RunSession that keeps the app running
+    outputToLog?: boolean; // Detached processes write to their command log instead of pipes, so they outlive this process (CLI --keep)
+    sandbox?: SandboxOptions; // Where runCommand executes. Default: local host with the agent's environment
+    policy?: CommandPolicy; // Allow/deny/approval rules for runCommand
+    onApprovalRequired?: ApprovalHandler; // Called for commands matching a 'require_approval' rule
+    // 'hint' (default): detected run plan is given to the LLM as a starting hypothesis;
+    // 'heuristic-only': execute the plan directly without any LLM; 'off': no detection
+    detection?: 'hint' | 'heuristic-only' | 'off';
+    recipes?: RecipeOptions | false; // Saved run recipes (default: enabled; disabled in cassette mode)
+    context?: ContextOptions | false; // Compaction of the LLM conversation; false sends the full history every turn
+    budget?: BudgetOptions; // Hard caps on tokens, cost and wall-clock time
+    prices?: Record<string, ModelPrice>; // Merged over DEFAULT_MODEL_PRICES
+    ports?: PortRange; // Ports reserved for this run's apps (PORT is set to `start`); container backends publish them
+    env?: Record<string, string>; // Variables for every command; visible to the model, which can change them with setEnv
+    secrets?: Record<string, string>; // Variables for every command; the model only sees their names, values (SECRET_MIN_LENGTH+ chars) are redacted
+}
+
+/**
+ * Per-run state shared by the orchestrator and the tool executor.
+ */
+export interface RunContext {
+    repoPath: string;
+    options: RunOptions;
+    config: RunConfig;
+    backend: ExecutionBackend;
+    policyDecisions: PolicyDecision[];
+    modifiedFiles: Set<string>; // Relative paths written by createFile/editFile/patchFile
+    env: Record<string, string>; // Variables for every command of the run (PORT, RunOptions.env, setEnv); shown to the model
+    secrets: Record<string, string>; // RunOptions.secrets: injected into commands, never shown to the model
 }
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as logger from '../utils/logger';
+import {
+    CONFIG_FILE_NAME,
+    CONFIG_FILE_ENV_VAR,
+    CONFIG_ENV_PREFIX,
+    DEFAULT_RUN_CONFIG,
+    RunConfig,
+    RunOptions
+} from './index';
+
+type ValueKind = 'positiveInteger' | 'string' | 'nullableString' | 'stringList';
+
+// Every RunConfig field and how its values are validated; unknown fields are rejected
+const CONFIG_SCHEMA: Record<keyof RunConfig, ValueKind> = {
+    model: 'nullableString',
+    maxTurns: 'positiveInteger',
+    commandTimeout: 'positiveInteger',
+    serverStartTimeout: 'positiveInteger',
+    maxFileContentLength: 'positiveInteger',
+    maxToolResultLength: 'positiveInteger',
+    tempDirPrefix: 'string',
+    ignoredPaths: 'stringList',
+    maxDirListingDepth: 'positiveInteger',
+    maxDirItems: 'positiveInteger',
+};
+
+/**
+ * Thrown for an invalid configuration value, naming the field and the layer it came from.
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+/**
+ * Environment variable for a config field: maxTurns -> REPO_RUNNER_MAX_TURNS.
+ */
+export function configEnvVar(field: keyof RunConfig): string {
+    return CONFIG_ENV_PREFIX + field.replace(/([A-Z])/g, '_$1').toUpperCase();
+}
+
+function describeKind(kind: ValueKind): string {
+    switch (kind) {
+        case 'positiveInteger': return 'a positive integer';
+        case 'string': return 'a non-empty string';
+        case 'nullableString': return 'a non-empty string or null';
+        case 'stringList': return 'a list of non-empty strings';
+    }
+}
+
+function isValid(value: unknown, kind: ValueKind): boolean {
+    switch (kind) {
+        case 'positiveInteger': return typeof value === 'number' && Number.isInteger(value) && value > 0;
+        case 'string': return typeof value === 'string' && value.length > 0;
+        case 'nullableString': return value === null || (typeof value === 'string' && value.length > 0);
+        case 'stringList': return Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0);
+    }
+}
+
+/**
+ * Sets one field of a configuration layer to a value already checked with isValid.
+ */
+function setLayerField<K extends keyof RunConfig>(layer: Partial<RunConfig>, field: K, value: unknown): void {
+    layer[field] = value as RunConfig[K];
+}
+
+/**
+ * Validates one configuration layer.
+ * @param layer Partial configuration, e.g. parsed from the config file.
+ * @param source Where the layer came from, for error messages.
+ * @returns The layer without undefined fields.
+ * @throws ConfigError for unknown fields and invalid values.
+ */
+export function validateConfigLayer(layer: unknown, source: string): Partial<RunConfig> {
+    if (layer === undefined || layer === null) return {};
+    if (typeof layer !== 'object' || Array.isArray(layer)) {
+        throw new ConfigError(`Invalid configuration in ${source}: expected an object.`);
+    }
+    const validated: Partial<RunConfig> = {};
+    for (const [field, value] of Object.entries(layer)) {
+        if (!(field in CONFIG_SCHEMA)) {
+            throw new ConfigError(`Unknown configuration field '${field}' in ${source}. Known fields: ${Object.keys(CONFIG_SCHEMA).join(', ')}.`);
+        }
+        if (value === undefined) continue;
+        const kind = CONFIG_SCHEMA[field as keyof RunConfig];
+        if (!isValid(value, kind)) {
+            throw new ConfigError(`Invalid configuration in ${source}: '${field}' must be ${describeKind(kind)} (got ${JSON.stringify(value)}).`);
+        }
+        setLayerField(validated, field as keyof RunConfig, value);
+    }
+    return validated;
+}
+
+/**
+ * Reads the REPO_RUNNER_* variables of the environment as a configuration layer.
+ * Lists are comma-separated; an empty REPO_RUNNER_MODEL is ignored.
+ */
+function readEnvLayer(env: NodeJS.ProcessEnv): Partial<RunConfig> {
+    const layer: Partial<RunConfig> = {};
+    for (const field of Object.keys(CONFIG_SCHEMA) as (keyof RunConfig)[]) {
+        const name = configEnvVar(field);
+        const raw = env[name];
+        if (raw === undefined || raw.trim() === '') continue;
+        const kind = CONFIG_SCHEMA[field];
+        const value = kind === 'positiveInteger' ? Number(raw.trim())
+            : kind === 'stringList' ? raw.split(',').map(item => item.trim()).filter(Boolean)
+            : raw.trim();
+        if (!isValid(value, kind)) {
+            throw new ConfigError(`Invalid environment variable ${name}: must be ${describeKind(kind)} (got "${raw}").`);
+        }
+        setLayerField(layer, field, value);
+    }
+    return layer;
+}
+
+/**
+ * Loads the config file layer: RunOptions.configFile, else $REPO_RUNNER_CONFIG, else
+ * ./repo-runner.config.json if it exists. An explicitly named file must exist.
+ */
+async function readFileLayer(configFile: string | false | undefined, env: NodeJS.ProcessEnv): Promise<Partial<RunConfig>> {
+    if (configFile === false) return {};
+    const explicit = configFile || env[CONFIG_FILE_ENV_VAR];
+    const filePath = path.resolve(explicit || CONFIG_FILE_NAME);
+    let raw: string;
+    try {
+        raw = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+        if (!explicit && error.code === 'ENOENT') return {};
+        throw new ConfigError(`Cannot read config file ${filePath}: ${error.message}`);
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error: any) {
+        throw new ConfigError(`Config file ${filePath} is not valid JSON: ${error.message}`);
+    }
+    logger.log(`Loaded configuration from ${filePath}.`);
+    return validateConfigLayer(parsed, `config file ${filePath}`);
+}
+
+/**
+ * Resolves the configuration of a run. Layers, from lowest to highest precedence: DEFAULT_RUN_CONFIG,
+ * the config file, REPO_RUNNER_* environment variables, RunOptions.config and RunOptions.maxTurns.
+ * @param options The run options.
+ * @param env Environment to read (defaults to process.env).
+ * @returns The validated configuration.
+ * @throws ConfigError naming the offending field and layer.
+ */
+export async function resolveRunConfig(
+    options: Pick<RunOptions, 'config' | 'configFile' | 'maxTurns'>,
+    env: NodeJS.ProcessEnv = process.env
+): Promise<RunConfig> {
+    const fileLayer = await readFileLayer(options.configFile, env);
+    const envLayer = readEnvLayer(env);
+    const optionsLayer = validateConfigLayer(options.config, 'RunOptions.config');
+    const maxTurnsLayer = validateConfigLayer({ maxTurns: options.maxTurns }, 'RunOptions.maxTurns');
+    return { ...DEFAULT_RUN_CONFIG, ...fileLayer, ...envLayer, ...optionsLayer, ...maxTurnsLayer };
+}
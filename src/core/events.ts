@@ -0,0 +1,75 @@
+import { EventEmitter } from 'events';
+import { FinalOutcome, PolicyDecision, RunPlan, ToolResult } from '../config';
+import { AssistantMessage, TokenUsage } from '../llm/providers/types';
+
+/**
+ * Payloads of all events emitted during a cloneAndRun invocation, keyed by event name.
+ */
+export interface RunEventMap {
+    'clone:start': { repoUrl: string; commitHash: string; repoPath: string };
+    'clone:finish': { repoUrl: string; commitHash: string; repoPath: string; durationMs: number };
+    'directory:listing': { repoPath: string; structure: string };
+    'plan:detected': { repoPath: string; plan: RunPlan | null; candidates: RunPlan[] };
+    'recipe:replay': { source: string; steps: number };
+    'recipe:fallback': { failedStep: number; step: string };
+    'recipe:saved': { path: string; steps: number };
+    'llm:turn': { turn: number; maxTurns: number; provider: string; model: string; message: AssistantMessage | null; usage?: TokenUsage; durationMs: number };
+    'context:compacted': { turn: number; tokensBefore: number; tokensAfter: number; summarizedTurns: number; droppedResults: number };
+    'tool:call': { turn: number; toolCallId: string; name: string; arguments: string };
+    'tool:result': { turn: number; toolCallId: string; name: string; result: ToolResult; durationMs: number };
+    'process:spawn': { repoPath: string; serviceName: string; pid: number; command: string };
+    'process:exit': { repoPath: string; serviceName: string; pid: number; exitCode: number | null; signal: string | null };
+    'session:crash': { repoPath: string; pid: number; exitCode: number | null; signal: string | null };
+    'session:restart': { repoPath: string; pid: number; restarts: number };
+    'policy:decision': PolicyDecision;
+    'run:error': { message: string };
+    'outcome': FinalOutcome;
+}
+
+export type RunEventName = keyof RunEventMap;
+
+/**
+ * Envelope passed to listeners of the catch-all 'event' channel.
+ */
+export interface RunEvent<K extends RunEventName = RunEventName> {
+    type: K;
+    timestamp: string;
+    payload: RunEventMap[K];
+}
+
+/**
+ * Typed EventEmitter for observing a run. Every typed event is also re-emitted on the
+ * catch-all 'event' channel as a RunEvent envelope, which is convenient for forwarding.
+ *
+ * @example
+ * const events = new RunEventEmitter();
+ * events.on('tool:call', ({ name }) => console.log(`tool: ${name}`));
+ * await cloneAndRun({ ...options, events });
+ */
+export class RunEventEmitter extends EventEmitter {
+    on<K extends RunEventName>(event: K, listener: (payload: RunEventMap[K]) => void): this;
+    on(event: 'event', listener: (event: RunEvent) => void): this;
+    on(event: string, listener: (...args: any[]) => void): this {
+        return super.on(event, listener);
+    }
+
+    once<K extends RunEventName>(event: K, listener: (payload: RunEventMap[K]) => void): this;
+    once(event: 'event', listener: (event: RunEvent) => void): this;
+    once(event: string, listener: (...args: any[]) => void): this {
+        return super.once(event, listener);
+    }
+
+    off<K extends RunEventName>(event: K, listener: (payload: RunEventMap[K]) => void): this;
+    off(event: 'event', listener: (event: RunEvent) => void): this;
+    off(event: string, listener: (...args: any[]) => void): this {
+        return super.off(event, listener);
+    }
+
+    emit<K extends RunEventName>(event: K, payload: RunEventMap[K]): boolean;
+    emit(event: string, ...args: any[]): boolean {
+        const handled = super.emit(event, ...args);
+        if (event === 'event') return handled;
+        const envelope: RunEvent = { type: event as RunEventName, timestamp: new Date().toISOString(), payload: args[0] };
+        return super.emit('event', envelope) || handled;
+    }
+}
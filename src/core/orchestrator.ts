@@ -1,85 +1,276 @@
 import { promises as fs } from 'fs';
-import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
-import { initializeOpenAI, getOpenAIClient } from '../llm/openaiClient';
-import { tools } from '../llm/tools';
-import { cloneAndCheckout } from '../git/client';
+import path from 'path';
+import { createProvider, resolveLLMOptions } from '../llm/providers';
+import { AgentMessage, AgentToolCall, LLMProvider, ToolMessage } from '../llm/providers/types';
+import { openCassette, Cassette, CassetteMismatchError } from '../llm/cassette';
+import { getTools } from '../llm/tools';
+import { resolveRunConfig } from '../config/loader';
+import { compactMessages } from '../llm/context';
+import { createUsageTracker, BudgetExceededError } from '../llm/usage';
+import { cloneAndCheckout, diffAgainstHead } from '../git/client';
+import { updateMirror } from '../git/mirror';
+import { computeDependencyKeys, restoreDependencies, saveDependencies, DependencyCacheKey } from '../cache/dependencies';
+import { evictLeastRecentlyUsed } from '../cache/lru';
 import { listDirectoryStructure, cleanupRepo } from '../utils/fsUtils';
-import { runningProcesses } from '../process/manager'; // Import map and cleanupAll
+import { listTrackedServices, runningProcesses } from '../process/manager'; // Import map and cleanupAll
+import { commandLogDir } from '../process/logs';
+import { createRunSession } from '../process/session';
+import { createExecutionBackend, registerRepoBackend } from '../process/backends';
+import { validatePortRange, portsInRange, portEnvironment } from '../process/ports';
+import { validateEnvironment } from '../process/environment';
+import { validateCommandPolicy } from '../policy/engine';
+import { detectRunPlan, formatRunPlan, DetectionResult } from '../detect';
+import { executeRunPlan } from '../detect/executePlan';
+import { loadRecipe, saveRecipe } from '../recipes/store';
+import { createRecipeRecorder, describeRecipeStep, replayRecipe } from '../recipes/replay';
 import * as logger from '../utils/logger';
+import { registerSecret, redactValue } from '../utils/redact';
 import {
-    TEMP_DIR_PREFIX,
-    MAX_LLM_TURNS,
-    MAX_TOOL_RESULT_LENGTH,
-    LLM_MODEL,
+    CACHE_DIR,
+    CACHE_MIRROR_MAX_BYTES,
+    CACHE_DEPENDENCY_MAX_BYTES,
+    CacheReport,
     FinalOutcome,
-    RunOptions
+    RunOptions,
+    RunContext,
+    AgentChanges,
+    RecipeReport,
+    ToolResult,
+    UsageReport
 } from '../config';
-import {getInitialUserPrompt, getSystemPrompt} from "../llm/prompts";
+import {getDependencyCachePrompt, getEnvironmentPrompt, getInitialUserPrompt, getPortRangePrompt, getRecipeFallbackPrompt, getSystemPrompt} from "../llm/prompts";
 import {executeToolCall} from "../llm/executor";
 
 /**
  * Main orchestration function to clone and attempt to run a repository.
- * @param options Configuration options including repo details and API keys.
+ * @param options Configuration options including repo details, API keys and the LLM provider to use.
  * @returns A Promise resolving to the FinalOutcome object.
  */
 export async function cloneAndRun(options: RunOptions): Promise<FinalOutcome> {
-    const { repoUrl, commitHash, openaiApiKey, githubToken } = options;
+    const { repoUrl, commitHash, githubToken, events } = options;
+    const runStarted = Date.now();
+    // Invalid configuration is the caller's error: thrown before anything is created
+    const config = await resolveRunConfig(options);
+    const maxTurns = config.maxTurns;
+    const tools = getTools(config);
+    const contextOptions = options.context === false ? null : (options.context || {});
+    const throwIfCancelled = () => {
+        if (options.signal?.aborted) throw new Error("Run was cancelled.");
+    };
     let tempRepoPath: string | undefined;
     let finalOutcome: FinalOutcome | null = null; // Use null initially
+    let cassette: Cassette | null = null;
+    const policyDecisions: RunContext['policyDecisions'] = [];
+    const modifiedFiles: RunContext['modifiedFiles'] = new Set();
 
-    // Ensure OpenAI client is ready
-    initializeOpenAI(openaiApiKey);
-    const openai = getOpenAIClient();
+    // Recipes are disabled in cassette mode: the recorded tool sequence must stay deterministic
+    const recipeOptions = options.recipes === false || options.cassette ? null : (options.recipes || {});
+    const recipeRecorder = createRecipeRecorder();
+    let recipeReport: RecipeReport | null = null;
+
+    // The cache is not used in cassette replay: nothing is cloned or installed
+    const cacheOptions = options.cache && options.cassette?.mode !== 'replay' ? (options.cache === true ? {} : options.cache) : null;
+    const cacheDir = cacheOptions?.dir || CACHE_DIR;
+    const mirrorsDir = path.join(cacheDir, 'mirrors');
+    const depsDir = path.join(cacheDir, 'dependencies');
+    const cacheReport: CacheReport | null = cacheOptions ? { mirror: null, restored: [], saved: [] } : null;
+    let dependencyKeys: DependencyCacheKey[] = [];
+
+    const detectionMode = options.detection ?? 'hint';
+    const heuristicOnly = detectionMode === 'heuristic-only';
+
+    // Create a provider for this run (no shared client between runs).
+    // In cassette replay and heuristic-only modes no live provider is needed, so no API key is required either.
+    const llmOptions = resolveLLMOptions(options, config.model);
+    const isReplay = options.cassette?.mode === 'replay';
+    const usage = createUsageTracker(llmOptions.model, options.prices, runStarted);
+    let provider: LLMProvider | null = isReplay || heuristicOnly ? null : createProvider(llmOptions);
+    if (options.cassette) {
+        cassette = await openCassette(options.cassette, { repoUrl, commitHash, provider: llmOptions.provider, model: llmOptions.model });
+        // Heuristic-only runs record and replay tool results alone: there is no LLM to wrap
+        if (!heuristicOnly) provider = cassette.wrapProvider(provider);
+    }
+    if (heuristicOnly) {
+        logger.log(`Detection mode 'heuristic-only': the run plan is executed without an LLM.`);
+    } else {
+        logger.log(`Using LLM provider '${provider.name}' with model '${llmOptions.model}'.`);
+    }
+
+    validateCommandPolicy(options.policy);
+    if (options.ports) validatePortRange(options.ports);
+    validateEnvironment(options.env, 'RunOptions.env');
+    validateEnvironment(options.secrets, 'RunOptions.secrets', true);
+    // Shared with the executor: setEnv changes it for the rest of the run
+    const commandEnv: RunContext['env'] = { ...portEnvironment(options.ports), ...options.env };
+    const commandSecrets: RunContext['secrets'] = { ...options.secrets };
+
+    // Commands requested by the model run through this backend (local host or a sandbox).
+    // Containers publish the run's port range unless the sandbox lists its own ports.
+    const sandbox = options.sandbox && options.ports && !options.sandbox.ports
+        ? { ...options.sandbox, ports: portsInRange(options.ports) }
+        : options.sandbox;
+    const backend = createExecutionBackend(sandbox);
+    if (!isReplay) await backend.verify();
+    logger.log(`Using execution backend '${backend.name}'.`);
+
+    // Masked in logs, tool results and the cassette until the run ends
+    const releaseSecrets = [githubToken, options.git?.auth?.token, options.openaiApiKey, llmOptions.apiKey, ...Object.values(commandSecrets)].map(registerSecret);
 
     try {
         // 1. Create Temporary Directory
-        tempRepoPath = await fs.mkdtemp(TEMP_DIR_PREFIX);
+        tempRepoPath = await fs.mkdtemp(config.tempDirPrefix);
         logger.log(`Created temporary directory: ${tempRepoPath}`);
+        registerRepoBackend(tempRepoPath, backend); // Disposed by cleanupRepo
         logger.log(`Starting analysis for ${repoUrl}#${commitHash}`);
 
         // Set default failure outcome (repoPath needs to be set here)
-        finalOutcome = { status: 'failure', url: null, notes: 'Analysis did not complete successfully.', repoPath: tempRepoPath };
+        finalOutcome = { status: 'failure', failureReason: 'error', url: null, notes: 'Analysis did not complete successfully.', repoPath: tempRepoPath };
 
 
-        // 2. Clone & Checkout
-        await cloneAndCheckout(repoUrl, tempRepoPath, commitHash, githubToken);
+        // 2. Clone & Checkout (skipped when replaying a cassette: tool results come from the recording)
+        let initialStructure: string;
+        if (isReplay) {
+            logger.log(`Cassette replay: skipping clone, using recorded directory structure.`);
+            initialStructure = cassette.initialStructure || "[Empty Directory or Listing Failed]";
+        } else {
+            events?.emit('clone:start', { repoUrl, commitHash, repoPath: tempRepoPath });
+            const cloneStarted = Date.now();
+            const clone = (mirrorPath: string | null) => cloneAndCheckout(repoUrl, tempRepoPath, commitHash, githubToken, options.git, mirrorPath);
+            if (cacheOptions && cacheOptions.mirror !== false) {
+                // Clones under the mirror's lock, so a concurrent run's eviction cannot remove it mid-clone
+                cacheReport.mirror = await updateMirror(repoUrl, commitHash, mirrorsDir, githubToken, options.git, clone);
+            }
+            if (!cacheReport?.mirror) await clone(null);
+            events?.emit('clone:finish', { repoUrl, commitHash, repoPath: tempRepoPath, durationMs: Date.now() - cloneStarted });
+            if (cacheReport?.mirror) {
+                await evictLeastRecentlyUsed(mirrorsDir, cacheOptions.maxMirrorBytes ?? CACHE_MIRROR_MAX_BYTES, [cacheReport.mirror]);
+            }
+
+            // 3. Get Initial File Structure
+            const dirStructureArray = await listDirectoryStructure(tempRepoPath, { maxDepth: config.maxDirListingDepth, maxItems: config.maxDirItems, ignored: config.ignoredPaths });
+            initialStructure = dirStructureArray.join('\n') || "[Empty Directory or Listing Failed]";
+            cassette?.setInitialStructure(initialStructure);
 
-        // 3. Get Initial File Structure
-        const dirStructureArray = await listDirectoryStructure(tempRepoPath); // Pass only the path
-        const initialStructure = dirStructureArray.join('\n') || "[Empty Directory or Listing Failed]";
+            // 3a. Restore installed dependencies of an earlier run with the same lockfiles
+            if (cacheOptions && cacheOptions.dependencies !== false) {
+                dependencyKeys = await computeDependencyKeys(tempRepoPath, repoUrl);
+                cacheReport.restored = await restoreDependencies(tempRepoPath, depsDir, dependencyKeys);
+            }
+        }
+        throwIfCancelled();
         logger.logPreview("Initial Directory Structure", initialStructure);
+        events?.emit('directory:listing', { repoPath: tempRepoPath, structure: initialStructure });
+
+        // 3b. Detect a run plan from well-known project files (no commands are executed)
+        let detection: DetectionResult | null = null;
+        if (detectionMode !== 'off') {
+            detection = isReplay ? cassette.detection : await detectRunPlan(tempRepoPath);
+            if (detection) {
+                cassette?.setDetection(detection);
+                events?.emit('plan:detected', { repoPath: tempRepoPath, plan: detection.plan, candidates: detection.candidates });
+            }
+            finalOutcome.plan = detection?.plan ?? null;
+        }
 
+        const context: RunContext = { repoPath: tempRepoPath, options, config, backend, policyDecisions, modifiedFiles, env: commandEnv, secrets: commandSecrets };
+        const runTool = async (toolCall: AgentToolCall, turn: number): Promise<ToolResult> => {
+            usage.enforce(options.budget, true);
+            events?.emit('tool:call', { turn, toolCallId: toolCall.id, name: toolCall.name, arguments: toolCall.arguments });
+            const toolStarted = Date.now();
+            // Results are redacted before the model, events, cassette or recipes see them
+            const execute = async () => redactValue(await executeToolCall(toolCall, context));
+            const toolResult = cassette ? await cassette.executeTool(toolCall, execute) : await execute();
+            events?.emit('tool:result', { turn, toolCallId: toolCall.id, name: toolCall.name, result: toolResult, durationMs: Date.now() - toolStarted });
+            recipeRecorder.record(toolCall, toolResult);
+            return toolResult;
+        };
+
+        // 3c. Replay a saved recipe for this repository; the LLM only takes over from a failing step
+        let loopCompleted = false;
+        let recipeFallback = '';
+        const savedRecipe = recipeOptions && recipeOptions.replay !== false
+            ? await loadRecipe(repoUrl, tempRepoPath, recipeOptions.storeDir)
+            : null;
+        if (savedRecipe) {
+            const { recipe, source } = savedRecipe;
+            events?.emit('recipe:replay', { source, steps: recipe.steps.length });
+            const replay = await replayRecipe(recipe, toolCall => runTool(toolCall, 0));
+            recipeReport = { source, replayedSteps: replay.replayedSteps, failedStep: replay.failedStep };
+            if (replay.outcome) {
+                finalOutcome = { ...replay.outcome, plan: finalOutcome.plan, repoPath: tempRepoPath };
+                loopCompleted = true;
+            } else {
+                events?.emit('recipe:fallback', { failedStep: replay.failedStep, step: replay.failure.step });
+                const resultString = JSON.stringify(replay.failure.result);
+                recipeFallback = '\n\n' + getRecipeFallbackPrompt(
+                    recipe.steps.slice(0, replay.replayedSteps).map(describeRecipeStep),
+                    replay.failure.step,
+                    resultString.length > config.maxToolResultLength ? resultString.substring(0, config.maxToolResultLength) + "... (truncated)" : resultString,
+                    recipe.steps.slice(replay.replayedSteps + 1).map(describeRecipeStep),
+                );
+            }
+            throwIfCancelled();
+        }
 
         // 4. Prepare LLM Conversation
-        const messages: ChatCompletionMessageParam[] = [
+        const messages: AgentMessage[] = [
             {
                 role: "system",
-                content: getSystemPrompt(tempRepoPath),
+                content: getSystemPrompt(tempRepoPath, config),
             },
             {
                 role: "user",
-                content: getInitialUserPrompt(tempRepoPath, initialStructure),
+                content: getInitialUserPrompt(tempRepoPath, initialStructure, detection?.plan ? formatRunPlan(detection) : undefined)
+                    + (cacheReport?.restored.length ? '\n\n' + getDependencyCachePrompt(cacheReport.restored) : '')
+                    + (options.ports ? '\n\n' + getPortRangePrompt(options.ports) : '')
+                    + (Object.keys(commandEnv).length || Object.keys(commandSecrets).length ? '\n\n' + getEnvironmentPrompt(commandEnv, Object.keys(commandSecrets)) : '')
+                    + recipeFallback,
             },
         ];
 
-        // 5. LLM Interaction Loop
-        let loopCompleted = false;
-        for (let i = 0; i < MAX_LLM_TURNS; i++) {
-            logger.log(`\n--- Turn ${i + 1}/${MAX_LLM_TURNS} ---`);
+        // 5. LLM Interaction Loop (or direct plan execution in heuristic-only mode)
+        if (heuristicOnly && !loopCompleted) {
+            const planOutcome = detection?.plan
+                ? await executeRunPlan(detection.plan, toolCall => runTool(toolCall, 0))
+                : { status: 'failure' as const, failureReason: 'unrunnable' as const, url: null, notes: '[heuristic-only] No run plan could be detected.' };
+            finalOutcome = { ...planOutcome, plan: finalOutcome.plan, repoPath: tempRepoPath };
+            loopCompleted = true;
+        }
+        for (let i = 0; i < maxTurns && !loopCompleted; i++) {
+            throwIfCancelled();
+            logger.log(`\n--- Turn ${i + 1}/${maxTurns} ---`);
+            if (contextOptions) {
+                const compaction = compactMessages(messages, tools, contextOptions);
+                if (compaction) {
+                    messages.splice(0, messages.length, ...compaction.messages);
+                    logger.log(`Context compacted: ~${compaction.tokensBefore} -> ~${compaction.tokensAfter} tokens (${compaction.summarizedTurns} turn(s) summarized, ${compaction.droppedResults} tool result(s) shortened).`);
+                    events?.emit('context:compacted', {
+                        turn: i + 1, tokensBefore: compaction.tokensBefore, tokensAfter: compaction.tokensAfter,
+                        summarizedTurns: compaction.summarizedTurns, droppedResults: compaction.droppedResults,
+                    });
+                }
+            }
             const lastMessage = messages[messages.length - 1];
             logger.logPreview(`Sending ${lastMessage.role} message to LLM`, lastMessage.content || '[Tool Call/Response]');
 
-            const response = await openai.chat.completions.create({
-                model: LLM_MODEL, // Use configured model
+            usage.enforce(options.budget);
+            const turnStarted = Date.now();
+            const response = await provider.chat({
+                model: llmOptions.model,
                 messages: messages,
                 tools: tools,
-                tool_choice: "auto",
             });
 
-            const responseMessage = response.choices[0].message;
+            const responseMessage = response.message;
+            usage.add(response.usage);
+            events?.emit('llm:turn', {
+                turn: i + 1, maxTurns, provider: provider.name, model: llmOptions.model,
+                message: responseMessage, usage: response.usage, durationMs: Date.now() - turnStarted,
+            });
 
             if (!responseMessage) {
                 logger.warn("LLM response message is empty. Stopping.");
+                finalOutcome.failureReason = 'no_response';
                 finalOutcome.notes = 'LLM response was empty.';
                 loopCompleted = true;
                 break;
@@ -87,39 +278,41 @@ export async function cloneAndRun(options: RunOptions): Promise<FinalOutcome> {
 
             messages.push(responseMessage); // Add assistant's response
 
-            if (responseMessage.tool_calls) {
-                logger.log(`LLM requested tool(s): ${responseMessage.tool_calls.map(tc => tc.function.name).join(', ')}`);
+            if (responseMessage.toolCalls?.length) {
+                logger.log(`LLM requested tool(s): ${responseMessage.toolCalls.map(tc => tc.name).join(', ')}`);
                 // Prepare array for tool results to be pushed back
-                const toolResultsMessages: ChatCompletionMessageParam[] = [];
+                const toolResultsMessages: ToolMessage[] = [];
 
-                for (const toolCall of responseMessage.tool_calls) {
+                for (const toolCall of responseMessage.toolCalls) {
                     if (!toolCall.id) {
                         logger.error("Tool call missing 'id'. Skipping.");
-                        continue; // Should not happen with OpenAI API
+                        continue; // Should not happen with supported providers
                     }
+                    throwIfCancelled();
 
-                    const toolResult = await executeToolCall(toolCall, tempRepoPath);
+                    const toolResult = await runTool(toolCall, i + 1);
 
                     // Check if the tool signaled a final outcome
                     if (toolResult.finalOutcome) {
-                        logger.log(`Tool '${toolCall.function.name}' signaled end of process.`);
+                        logger.log(`Tool '${toolCall.name}' signaled end of process.`);
                         // Update the final outcome, preserving repoPath
-                        finalOutcome = { ...toolResult.finalOutcome, repoPath: tempRepoPath };
+                        finalOutcome = { ...toolResult.finalOutcome, plan: finalOutcome.plan, repoPath: tempRepoPath };
                         loopCompleted = true;
                         break; // Break from processing tool calls for this turn
                     }
 
                     // Truncate result before sending back to LLM
                     const toolResultString = JSON.stringify(toolResult);
-                    const truncatedResultString = toolResultString.length > MAX_TOOL_RESULT_LENGTH
-                        ? toolResultString.substring(0, MAX_TOOL_RESULT_LENGTH) + "... (truncated)"
+                    const truncatedResultString = toolResultString.length > config.maxToolResultLength
+                        ? toolResultString.substring(0, config.maxToolResultLength) + "... (truncated)"
                         : toolResultString;
 
-                    logger.logPreview(`Tool result for ${toolCall.function.name}`, toolResult); // Log full result preview locally
+                    logger.logPreview(`Tool result for ${toolCall.name}`, toolResult); // Log full result preview locally
 
                     toolResultsMessages.push({
-                        tool_call_id: toolCall.id,
                         role: "tool",
+                        toolCallId: toolCall.id,
+                        name: toolCall.name,
                         content: truncatedResultString,
                     });
                 }
@@ -132,6 +325,7 @@ export async function cloneAndRun(options: RunOptions): Promise<FinalOutcome> {
                 // Optional: Check if the LLM is giving up or asking for clarification
             } else {
                 logger.warn("LLM response has neither content nor tool_calls. Stopping.");
+                finalOutcome.failureReason = 'no_response';
                 finalOutcome.notes = 'LLM response had no content or tool calls.';
                 loopCompleted = true;
                 break;
@@ -142,38 +336,126 @@ export async function cloneAndRun(options: RunOptions): Promise<FinalOutcome> {
 
         // 6. Handle Max Turns Reached
         if (!loopCompleted) {
-            logger.warn(`Max turns (${MAX_LLM_TURNS}) reached without conclusive result.`);
-            finalOutcome.notes = `Max turns (${MAX_LLM_TURNS}) reached without a conclusive 'markRunning' or 'markUnrunnable' call.`;
+            logger.warn(`Max turns (${maxTurns}) reached without conclusive result.`);
+            finalOutcome.failureReason = 'max_turns';
+            finalOutcome.notes = `Max turns (${maxTurns}) reached without a conclusive 'markRunning' or 'markUnrunnable' call.`;
             // The 'finally' block will handle cleanup of repo and any tracked processes
         }
 
-        // 7. Log Final Outcome
+        // 7. Hand the running app over to the caller if requested
+        if (options.keepAlive && finalOutcome.status === 'success') {
+            if (listTrackedServices(tempRepoPath).length > 0) {
+                const watchdog = typeof options.keepAlive === 'object' ? options.keepAlive.watchdog : undefined;
+                // The session watches the service serving the primary URL
+                const serviceName = finalOutcome.endpoints?.[0]?.serviceName ?? undefined;
+                finalOutcome.session = createRunSession(tempRepoPath, finalOutcome.url, watchdog, { events, backend, config, env: { ...commandEnv, ...commandSecrets }, outputToLog: options.outputToLog, startup: options.startup, serviceName });
+            } else {
+                logger.warn(`keepAlive requested, but no background process is tracked for ${tempRepoPath}. No session created.`);
+            }
+        }
+
+        // Save the successful tool sequence so the next run of this repository can skip the LLM
+        if (recipeOptions && recipeOptions.save !== false && finalOutcome.status === 'success') {
+            const recipe = recipeRecorder.build(repoUrl, commitHash);
+            if (recipe) {
+                try {
+                    const savedTo = await saveRecipe(recipe, recipeOptions.storeDir);
+                    recipeReport = { ...(recipeReport || { source: null, replayedSteps: 0, failedStep: null }), savedTo };
+                    events?.emit('recipe:saved', { path: savedTo, steps: recipe.steps.length });
+                } catch (saveError: any) {
+                    logger.warn(`Failed to save recipe: ${saveError.message}`);
+                }
+            }
+        }
+        if (recipeReport) finalOutcome.recipe = recipeReport;
+
+        // Cache the installed dependencies of a successful run for the next run with the same lockfiles
+        if (cacheReport && dependencyKeys.length && finalOutcome.status === 'success') {
+            try {
+                cacheReport.saved = await saveDependencies(tempRepoPath, depsDir, dependencyKeys, cacheOptions.maxDependencyBytes ?? CACHE_DEPENDENCY_MAX_BYTES);
+            } catch (cacheError: any) {
+                logger.warn(`Failed to update the dependency cache: ${cacheError.message}`);
+            }
+        }
+        if (cacheReport) finalOutcome.cache = cacheReport;
+
+        finalOutcome.policyDecisions = policyDecisions;
+        finalOutcome.usage = usage.report();
+        finalOutcome.changes = await collectAgentChanges(tempRepoPath, modifiedFiles);
+        finalOutcome.logDir = commandLogDir(tempRepoPath); // Removed together with the checkout by cleanupRepo
+
+        // 8. Log Final Outcome
         logger.log(`\n--- Analysis Complete ---`);
         if (finalOutcome.status === 'success') {
             logger.log(`✅ Status: Success`);
             logger.log(`✅ URL: ${finalOutcome.url}`);
+            if (finalOutcome.probe) {
+                logger.log(`✅ Probe: HTTP ${finalOutcome.probe.statusCode} in ${finalOutcome.probe.latencyMs}ms${finalOutcome.probe.title ? ` ("${finalOutcome.probe.title}")` : ''}`);
+            }
         } else {
             logger.error(`❌ Status: Failure`);
         }
         logger.log(`ℹ️ Notes: ${finalOutcome.notes || 'None'}`);
+        logger.log(`ℹ️ Usage: ${formatUsage(finalOutcome.usage)}`);
         logger.log(`ℹ️ Repo Location: ${finalOutcome.repoPath}`);
 
+        events?.emit('outcome', finalOutcome);
         return finalOutcome; // Return the determined outcome
 
     } catch (error: any) {
-        logger.error(`\n--- 💥 Unhandled Error During Orchestration ---`);
-        logger.error(`An unexpected error occurred: ${error.message}`, error);
+        const budgetExceeded = error instanceof BudgetExceededError;
+        if (budgetExceeded) {
+            logger.warn(`\n--- Run stopped: ${error.message} ---`);
+        } else {
+            logger.error(`\n--- 💥 Unhandled Error During Orchestration ---`);
+            logger.error(`An unexpected error occurred: ${error.message}`, error);
+        }
         // Ensure finalOutcome exists and includes repoPath if available
-        const notes = `Unhandled exception during analysis: ${error.message}`;
+        const notes = budgetExceeded ? error.message : `Unhandled exception during analysis: ${error.message}`;
+        const failureReason = budgetExceeded ? error.reason : options.signal?.aborted ? 'cancelled' : 'error';
         if (finalOutcome) {
             finalOutcome.status = 'failure';
+            finalOutcome.failureReason = failureReason;
             finalOutcome.notes = notes;
         } else {
             // If error happened before finalOutcome was initialized (e.g., mkdtemp fails)
-            finalOutcome = { status: 'failure', url: null, notes: notes, repoPath: tempRepoPath || 'unknown' };
+            finalOutcome = { status: 'failure', failureReason, url: null, notes: notes, repoPath: tempRepoPath || 'unknown' };
         }
-        await terminateTrackedProcess(tempRepoPath || '')
+        finalOutcome.policyDecisions = policyDecisions;
+        finalOutcome.usage = usage.report();
+        if (recipeReport) finalOutcome.recipe = recipeReport;
+        if (cacheReport) finalOutcome.cache = cacheReport;
+        if (tempRepoPath) finalOutcome.changes = await collectAgentChanges(tempRepoPath, modifiedFiles);
+        await terminateTrackedProcess(tempRepoPath || '') // Also disposes the backend
+        events?.emit('run:error', { message: error.message });
+        events?.emit('outcome', finalOutcome);
+        // Replay divergence is a test failure, not a run outcome: surface the diff to the caller
+        if (error instanceof CassetteMismatchError) throw error;
         return finalOutcome; // Return failure outcome
+    } finally {
+        if (cassette) {
+            await cassette.save().catch(saveError => logger.error(`Failed to save cassette: ${saveError.message}`));
+        }
+        releaseSecrets.forEach(release => release());
+    }
+}
+
+function formatUsage(report: UsageReport): string {
+    const cost = report.costUsd === null ? 'cost unknown' : `$${report.costUsd.toFixed(4)}`;
+    return `${report.turns} LLM turn(s), ${report.promptTokens} prompt + ${report.completionTokens} completion tokens, ${cost}, ${Math.round(report.durationMs / 1000)}s`;
+}
+
+/**
+ * Diffs the files the agent wrote against the checked-out commit. Never throws: a failed
+ * diff is reported in place of the diff text.
+ */
+async function collectAgentChanges(repoPath: string, modifiedFiles: Set<string>): Promise<AgentChanges> {
+    const files = Array.from(modifiedFiles).sort();
+    try {
+        return { files, diff: await diffAgainstHead(repoPath, files) };
+    } catch (diffError: any) {
+        logger.warn(`Could not diff agent changes: ${diffError.message}`);
+        return { files, diff: `[Diff unavailable: ${diffError.message}]` };
     }
 }
 
@@ -0,0 +1,267 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PlanCommand, RunPlan } from '../config';
+
+/**
+ * A detector inspects the repository root and returns a candidate plan, or null if the
+ * ecosystem does not apply. Detectors never execute anything.
+ */
+export type Detector = (repoPath: string) => Promise<RunPlan | null>;
+
+async function readIfExists(repoPath: string, file: string): Promise<string | null> {
+    try {
+        return await fs.readFile(path.join(repoPath, file), 'utf-8');
+    } catch {
+        return null;
+    }
+}
+
+async function exists(repoPath: string, file: string): Promise<boolean> {
+    try {
+        await fs.access(path.join(repoPath, file));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function cmd(command: string, ...args: string[]): PlanCommand {
+    return { command, args };
+}
+
+/** Finds an explicit port in a command line or source file (`--port 4000`, `-p 4000`, `PORT=4000`, `port=4000`, `:4000`). */
+function findPort(text: string): number | null {
+    const match = text.match(/(?:--port[= ]|-p[= ]|\bport\s*[=:]\s*|localhost:|0\.0\.0\.0:|127\.0\.0\.1:)(\d{2,5})\b/i);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+// --- Node.js ---
+
+const NODE_FRAMEWORK_PORTS: [string, number][] = [
+    ['vite', 5173],
+    ['@angular/cli', 4200],
+    ['next', 3000],
+    ['nuxt', 3000],
+    ['react-scripts', 3000],
+    ['@remix-run/dev', 3000],
+    ['gatsby', 8000],
+    ['@vue/cli-service', 8080],
+    ['webpack-dev-server', 8080],
+    ['parcel', 1234],
+    ['express', 3000],
+    ['fastify', 3000],
+    ['koa', 3000],
+];
+
+export const detectNode: Detector = async (repoPath) => {
+    const raw = await readIfExists(repoPath, 'package.json');
+    if (raw === null) return null;
+    let pkg: any;
+    try {
+        pkg = JSON.parse(raw);
+    } catch {
+        return { ecosystem: 'node', confidence: 0.2, install: [], build: [], start: null, expectedPort: null, evidence: ['package.json (unparsable)'] };
+    }
+    const evidence = ['package.json'];
+    const scripts: Record<string, string> = pkg.scripts || {};
+    const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+
+    // Package manager: explicit `packageManager` field first, then lockfiles
+    let manager = (typeof pkg.packageManager === 'string' ? pkg.packageManager.split('@')[0] : '') as string;
+    const lockfiles: [string, string][] = [['pnpm-lock.yaml', 'pnpm'], ['yarn.lock', 'yarn'], ['bun.lockb', 'bun'], ['bun.lock', 'bun'], ['package-lock.json', 'npm']];
+    let lockfile: string | null = null;
+    for (const [file, name] of lockfiles) {
+        if (await exists(repoPath, file)) {
+            lockfile = file;
+            manager = manager || name;
+            evidence.push(file);
+            break;
+        }
+    }
+    manager = manager || 'npm';
+
+    const install = manager === 'npm'
+        ? [lockfile === 'package-lock.json' ? cmd('npm', 'ci') : cmd('npm', 'install')]
+        : [cmd(manager, 'install')];
+    const runScript = (name: string) => manager === 'npm' ? cmd('npm', 'run', name) : cmd(manager, 'run', name);
+
+    const build = scripts.build ? [runScript('build')] : [];
+    const startScript = ['dev', 'start', 'serve', 'preview'].find(name => scripts[name]);
+    let start: PlanCommand | null = startScript ? runScript(startScript) : null;
+    if (!start && typeof pkg.main === 'string') start = cmd('node', pkg.main);
+    if (startScript) evidence.push(`scripts.${startScript}: ${scripts[startScript]}`);
+
+    let expectedPort = startScript ? findPort(scripts[startScript]) : null;
+    if (expectedPort === null) {
+        const framework = NODE_FRAMEWORK_PORTS.find(([name]) => deps[name]);
+        if (framework) {
+            expectedPort = framework[1];
+            evidence.push(`dependency ${framework[0]}`);
+        }
+    }
+
+    return { ecosystem: 'node', confidence: start ? 0.9 : 0.5, install, build, start, expectedPort, evidence };
+};
+
+// --- Python ---
+
+export const detectPython: Detector = async (repoPath) => {
+    const requirements = await readIfExists(repoPath, 'requirements.txt');
+    const pyproject = await readIfExists(repoPath, 'pyproject.toml');
+    const hasManagePy = await exists(repoPath, 'manage.py');
+    if (requirements === null && pyproject === null && !hasManagePy) return null;
+
+    const evidence: string[] = [];
+    const venvBin = (name: string) => path.join('.venv', 'bin', name);
+    const install: PlanCommand[] = [];
+    if (pyproject !== null && /\[tool\.poetry\]/.test(pyproject)) {
+        evidence.push('pyproject.toml (poetry)');
+        install.push(cmd('poetry', 'install'));
+    } else {
+        install.push(cmd('python3', '-m', 'venv', '.venv'));
+        if (requirements !== null) {
+            evidence.push('requirements.txt');
+            install.push(cmd(venvBin('pip'), 'install', '-r', 'requirements.txt'));
+        } else if (pyproject !== null) {
+            evidence.push('pyproject.toml');
+            install.push(cmd(venvBin('pip'), 'install', '.'));
+        }
+    }
+
+    const deps = `${requirements || ''}\n${pyproject || ''}`.toLowerCase();
+    const python = install[0].command === 'poetry' ? ['poetry', 'run', 'python'] : [venvBin('python')];
+    let start: PlanCommand | null = null;
+    let expectedPort: number | null = null;
+
+    if (hasManagePy) {
+        evidence.push('manage.py (Django)');
+        start = cmd(python[0], ...python.slice(1), 'manage.py', 'runserver', '0.0.0.0:8000');
+        expectedPort = 8000;
+    } else {
+        const entry = ['app.py', 'main.py', 'server.py', 'run.py'];
+        for (const file of entry) {
+            const source = await readIfExists(repoPath, file);
+            if (source === null) continue;
+            evidence.push(file);
+            if (/fastapi/i.test(source) || deps.includes('fastapi')) {
+                const module = file.replace(/\.py$/, '');
+                start = cmd(python[0], ...python.slice(1), '-m', 'uvicorn', `${module}:app`, '--host', '0.0.0.0', '--port', '8000');
+                expectedPort = 8000;
+            } else {
+                start = cmd(python[0], ...python.slice(1), file);
+                expectedPort = findPort(source) ?? (/flask/i.test(source) || deps.includes('flask') ? 5000 : null);
+            }
+            break;
+        }
+    }
+
+    return { ecosystem: 'python', confidence: start ? 0.8 : 0.4, install, build: [], start, expectedPort, evidence };
+};
+
+// --- Go ---
+
+export const detectGo: Detector = async (repoPath) => {
+    if (!(await exists(repoPath, 'go.mod'))) return null;
+    const main = await readIfExists(repoPath, 'main.go');
+    return {
+        ecosystem: 'go',
+        confidence: main !== null ? 0.8 : 0.5,
+        install: [cmd('go', 'mod', 'download')],
+        build: [cmd('go', 'build', './...')],
+        start: main !== null ? cmd('go', 'run', '.') : null,
+        expectedPort: main !== null ? findPort(main) : null,
+        evidence: ['go.mod', ...(main !== null ? ['main.go'] : [])],
+    };
+};
+
+// --- Rust ---
+
+export const detectRust: Detector = async (repoPath) => {
+    const cargo = await readIfExists(repoPath, 'Cargo.toml');
+    if (cargo === null) return null;
+    const isBinary = /\[\[bin\]\]/.test(cargo) || await exists(repoPath, path.join('src', 'main.rs'));
+    return {
+        ecosystem: 'rust',
+        confidence: isBinary ? 0.8 : 0.4,
+        install: [cmd('cargo', 'fetch')],
+        build: [cmd('cargo', 'build')],
+        start: isBinary ? cmd('cargo', 'run') : null,
+        expectedPort: null,
+        evidence: ['Cargo.toml', ...(isBinary ? ['binary target'] : [])],
+    };
+};
+
+// --- Makefile ---
+
+export const detectMakefile: Detector = async (repoPath) => {
+    const makefile = await readIfExists(repoPath, 'Makefile');
+    if (makefile === null) return null;
+    const targets = new Set<string>();
+    const targetRegex = /^([A-Za-z0-9_.-]+)\s*:(?!=)/gm;
+    let match: RegExpExecArray | null;
+    while ((match = targetRegex.exec(makefile)) !== null) {
+        targets.add(match[1]);
+    }
+    const pick = (...names: string[]) => names.find(name => targets.has(name));
+    const installTarget = pick('install', 'deps', 'setup');
+    const buildTarget = pick('build', 'all');
+    const startTarget = pick('run', 'start', 'serve', 'dev');
+    return {
+        ecosystem: 'make',
+        confidence: startTarget ? 0.6 : 0.3,
+        install: installTarget ? [cmd('make', installTarget)] : [],
+        build: buildTarget ? [cmd('make', buildTarget)] : [],
+        start: startTarget ? cmd('make', startTarget) : null,
+        expectedPort: null,
+        evidence: [`Makefile (targets: ${Array.from(targets).slice(0, 10).join(', ')})`],
+    };
+};
+
+// --- Procfile ---
+
+export const detectProcfile: Detector = async (repoPath) => {
+    const procfile = await readIfExists(repoPath, 'Procfile');
+    if (procfile === null) return null;
+    const web = procfile.match(/^web:\s*(.+)$/m);
+    if (!web) return null;
+    const port = findPort(web[1]) ?? 5000;
+    return {
+        ecosystem: 'procfile',
+        confidence: 0.5,
+        install: [],
+        build: [],
+        // Procfile commands expect $PORT from the platform
+        start: cmd('sh', '-c', `PORT=\${PORT:-${port}} ${web[1].trim()}`),
+        expectedPort: port,
+        evidence: [`Procfile web: ${web[1].trim()}`],
+    };
+};
+
+// --- Dockerfile ---
+
+export const detectDockerfile: Detector = async (repoPath) => {
+    const dockerfile = await readIfExists(repoPath, 'Dockerfile');
+    if (dockerfile === null) return null;
+    const expose = dockerfile.match(/^\s*EXPOSE\s+(\d+)/mi);
+    const port = expose ? parseInt(expose[1], 10) : null;
+    const tag = 'repo-runner-app';
+    return {
+        ecosystem: 'docker',
+        confidence: 0.35,
+        install: [],
+        build: [cmd('docker', 'build', '-t', tag, '.')],
+        start: cmd('docker', 'run', '--rm', ...(port ? ['-p', `${port}:${port}`] : []), tag),
+        expectedPort: port,
+        evidence: ['Dockerfile', ...(expose ? [`EXPOSE ${port}`] : [])],
+    };
+};
+
+export const DETECTORS: Detector[] = [
+    detectNode,
+    detectPython,
+    detectGo,
+    detectRust,
+    detectMakefile,
+    detectProcfile,
+    detectDockerfile,
+];
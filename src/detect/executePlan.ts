@@ -0,0 +1,58 @@
+import * as logger from '../utils/logger';
+import { FinalOutcome, PlanCommand, RunPlan, ToolResult } from '../config';
+import { AgentToolCall } from '../llm/providers/types';
+import { formatCommand } from './index';
+
+export type ToolRunner = (toolCall: AgentToolCall) => Promise<ToolResult>;
+
+/**
+ * Executes a detected plan without the LLM, through the same tool path the model uses
+ * (so policy, sandboxing, events and cassettes all apply).
+ * @param plan The plan to execute.
+ * @param runTool Executes one tool call in the current run.
+ * @returns The outcome, without repoPath.
+ */
+export async function executeRunPlan(plan: RunPlan, runTool: ToolRunner): Promise<Omit<FinalOutcome, 'repoPath'>> {
+    let step = 0;
+    const call = (name: string, args: object): Promise<ToolResult> =>
+        runTool({ id: `plan-${++step}`, name, arguments: JSON.stringify(args) });
+    // Failures go through markUnrunnable so tracked processes and the backend are cleaned up
+    const fail = async (notes: string): Promise<Omit<FinalOutcome, 'repoPath'>> => {
+        logger.warn(`Heuristic plan failed: ${notes}`);
+        const result = await call('markUnrunnable', { reason: `[heuristic-only] ${notes}` });
+        return result.finalOutcome || { status: 'failure', failureReason: 'unrunnable', url: null, notes: `[heuristic-only] ${notes}` };
+    };
+
+    if (!plan.start) {
+        return fail(`Detected a ${plan.ecosystem} project but no start command.`);
+    }
+
+    const runStep = async (command: PlanCommand): Promise<ToolResult> =>
+        call('runCommand', { command: command.command, args: command.args });
+
+    for (const command of [...plan.install, ...plan.build]) {
+        const result = await runStep(command);
+        if (!result.success) {
+            return fail(`'${formatCommand(command)}' failed: ${result.error || result.notes || `exit code ${result.exitCode}`}`);
+        }
+    }
+
+    const startResult = await call('runCommand', { command: plan.start.command, args: plan.start.args, isLongRunning: true });
+    if (!startResult.success) {
+        return fail(`'${formatCommand(plan.start)}' did not start: ${startResult.error || startResult.notes}`);
+    }
+
+    const port = startResult.detectedPort || (plan.expectedPort ? String(plan.expectedPort) : null);
+    if (!port) {
+        return fail(`'${formatCommand(plan.start)}' started, but the port is unknown.`);
+    }
+
+    const markResult = await call('markRunning', {
+        deploymentUrl: `http://localhost:${port}`,
+        notes: `[heuristic-only] ${plan.ecosystem} plan: ${formatCommand(plan.start)}`,
+    });
+    if (!markResult.finalOutcome) {
+        return fail(`App did not answer on port ${port}: ${markResult.error}`);
+    }
+    return markResult.finalOutcome;
+}
@@ -0,0 +1,50 @@
+import * as logger from '../utils/logger';
+import { RunPlan, PlanCommand } from '../config';
+import { DETECTORS } from './detectors';
+
+export interface DetectionResult {
+    plan: RunPlan | null; // Highest-confidence candidate
+    candidates: RunPlan[]; // All applicable candidates, best first
+}
+
+/**
+ * Runs every detector against the repository root and ranks the candidate plans.
+ * @param repoPath Absolute path of the cloned repository.
+ */
+export async function detectRunPlan(repoPath: string): Promise<DetectionResult> {
+    const results = await Promise.all(DETECTORS.map(detector => detector(repoPath).catch((error: any) => {
+        logger.warn(`Detector failed: ${error.message}`);
+        return null;
+    })));
+    const candidates = results.filter((plan): plan is RunPlan => plan !== null).sort((a, b) => b.confidence - a.confidence);
+    const plan = candidates[0] || null;
+    if (plan) {
+        logger.log(`Detected ${plan.ecosystem} project (confidence ${plan.confidence}): start=${plan.start ? formatCommand(plan.start) : 'unknown'}, port=${plan.expectedPort ?? 'unknown'}`);
+    } else {
+        logger.log(`No known project type detected.`);
+    }
+    return { plan, candidates };
+}
+
+export function formatCommand(command: PlanCommand): string {
+    return [command.command, ...command.args].join(' ');
+}
+
+/**
+ * Renders the detection result as a hypothesis for the initial LLM prompt.
+ */
+export function formatRunPlan(detection: DetectionResult): string {
+    const { plan, candidates } = detection;
+    if (!plan) return 'No known project type was detected from the repository files.';
+    const lines = [
+        `Ecosystem: ${plan.ecosystem} (confidence ${plan.confidence})`,
+        `Evidence: ${plan.evidence.join('; ')}`,
+        `Install: ${plan.install.map(formatCommand).join(' && ') || 'none'}`,
+        `Build: ${plan.build.map(formatCommand).join(' && ') || 'none'}`,
+        `Start: ${plan.start ? formatCommand(plan.start) : 'unknown'}`,
+        `Expected port: ${plan.expectedPort ?? 'unknown'}`,
+    ];
+    const others = candidates.slice(1).map(candidate => `${candidate.ecosystem} (${candidate.evidence.join('; ')})`);
+    if (others.length > 0) lines.push(`Other signals: ${others.join(', ')}`);
+    return lines.join('\n');
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { simpleGit, SimpleGit } from 'simple-git';
+import * as logger from '../utils/logger';
+import { registerSecret } from '../utils/redact';
+import { normalizeRepoUrl } from '../recipes/store';
+import { touchEntry, withEntryLock } from '../cache/lru';
+import { resolveGitSource, resolveGitAuth, gitEnvironment } from './client';
+import { GitSourceOptions } from '../config';
+
+// A bare mirror per repository under <cache dir>/mirrors. Each run brings it up to date (only new
+// objects are transferred) and then checks out from it locally.
+
+const MIRROR_REFSPECS = ['+refs/heads/*:refs/heads/*', '+refs/tags/*:refs/tags/*'];
+const FULL_SHA_REGEX = /^(?:[0-9a-f]{40}|[0-9a-f]{64})$/i;
+
+/**
+ * Returns the mirror directory of a repository.
+ * @param repoUrl The repository URL.
+ * @param mirrorsDir Directory holding the mirrors.
+ * @returns Absolute path of the bare mirror (which may not exist yet).
+ */
+export function mirrorPathFor(repoUrl: string, mirrorsDir: string): string {
+    const normalized = normalizeRepoUrl(repoUrl);
+    const readable = normalized.replace(/^\w+:\/\//, '').replace(/[^a-z0-9._-]+/g, '_').slice(-80);
+    const hash = crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 8);
+    return path.join(mirrorsDir, `${readable}-${hash}.git`);
+}
+
+/**
+ * Points the mirror's HEAD at the remote's default branch, so 'HEAD' checkouts from the mirror
+ * match the remote.
+ */
+async function syncDefaultBranch(git: SimpleGit): Promise<void> {
+    const output = await git.raw(['ls-remote', '--symref', 'origin', 'HEAD']);
+    const match = output.match(/^ref:\s*(refs\/heads\/\S+)\s+HEAD/m);
+    if (match) await git.raw(['symbolic-ref', 'HEAD', match[1]]);
+}
+
+/**
+ * Creates or updates the mirror of a repository: all branches and tags, pruned. A full commit SHA
+ * that no branch or tag contains (e.g. a pull request head) is fetched into the mirror directly
+ * when the server allows it. Runs under the mirror's lock, so concurrent runs update it in turn.
+ * Local sources are not mirrored.
+ * @param repoUrl URL of the repository.
+ * @param ref The ref the run checks out.
+ * @param mirrorsDir Directory holding the mirrors.
+ * @param accessToken Optional HTTPS token (used unless options.auth.token is set).
+ * @param options Authentication.
+ * @param whileLocked Work reading the mirror (e.g. cloning from it), run after the update under the
+ *   same lock: eviction skips locked mirrors, so the mirror cannot disappear meanwhile.
+ * @returns Path of the up-to-date mirror, or null for local sources (`whileLocked` is not run).
+ * @throws Error if the remote cannot be fetched, or what `whileLocked` throws.
+ */
+export async function updateMirror(
+    repoUrl: string,
+    ref: string,
+    mirrorsDir: string,
+    accessToken: string | null = null,
+    options: GitSourceOptions = {},
+    whileLocked?: (mirrorPath: string) => Promise<unknown>
+): Promise<string | null> {
+    const source = resolveGitSource(repoUrl);
+    if (source.isLocal) {
+        logger.log('Local repository: checking out directly, without a mirror.');
+        return null;
+    }
+    const mirrorPath = mirrorPathFor(source.url, mirrorsDir);
+    const auth = resolveGitAuth(source, accessToken, options);
+    const { env, authHeader } = gitEnvironment(source, auth);
+    const releaseSecrets = [auth.token, authHeader].map(registerSecret);
+
+    try {
+        return await withEntryLock(mirrorPath, async () => {
+            const exists = await fs.access(path.join(mirrorPath, 'HEAD')).then(() => true, () => false);
+            if (!exists) {
+                logger.log(`Creating mirror of ${source.url} in ${mirrorPath}...`);
+                await fs.rm(mirrorPath, { recursive: true, force: true }); // Leftover of an interrupted creation
+                await fs.mkdir(mirrorPath, { recursive: true });
+            }
+            const git = simpleGit(mirrorPath).env({ ...process.env, ...env });
+            if (!exists) {
+                await git.raw(['init', '--bare']);
+                await git.addRemote('origin', source.url);
+            }
+
+            logger.log(`Updating mirror ${mirrorPath}...`);
+            await git.raw(['fetch', '--prune', '--no-tags', 'origin', ...MIRROR_REFSPECS]);
+            await syncDefaultBranch(git);
+            if (FULL_SHA_REGEX.test(ref)) {
+                const present = await git.raw(['cat-file', '-e', `${ref}^{commit}`]).then(() => true, () => false);
+                if (!present) {
+                    try {
+                        // Kept under a ref so the mirror serves it and gc does not drop it
+                        await git.raw(['fetch', '--no-tags', 'origin', `${ref}:refs/pinned/${ref}`]);
+                    } catch (fetchError: any) {
+                        logger.warn(`Commit ${ref} is not in any branch or tag and the server did not serve it directly: ${fetchError.message.trim()}`);
+                    }
+                }
+            }
+            await touchEntry(mirrorPath);
+            await whileLocked?.(mirrorPath);
+            return mirrorPath;
+        });
+    } finally {
+        releaseSecrets.forEach(release => release());
+    }
+}
@@ -1,2 +1,16 @@
 export { cloneAndRun } from './core/orchestrator';
-export { RunOptions, FinalOutcome } from './config';
+export { RunOptions, FinalOutcome, LLMOptions, LLMProviderName, CassetteOptions, ReadinessProbeOptions, ProbeResult, WatchdogOptions, StartupOptions, RunConfig, GitSourceOptions, GitAuthOptions, CacheOptions, CacheReport, PortRange, BatchOptions, BatchEntryResult, BatchReport, ContextOptions, BudgetOptions, ModelPrice, UsageReport, FailureReason, SandboxOptions, CommandPolicy, PolicyRule, PolicyDecision, ApprovalRequest, ServiceEndpoint, ServiceStatus, RunPlan, PlanCommand, Recipe, RecipeStep, RecipeOptions, RecipeReport } from './config';
+export { DEFAULT_POLICY_RULES } from './policy/rules';
+export { DEFAULT_MODEL_PRICES, DEFAULT_RUN_CONFIG } from './config';
+export { resolveRunConfig, ConfigError } from './config/loader';
+export { registerSecret, redact } from './utils/redact';
+export { evaluateCommandPolicy } from './policy/engine';
+export { runBatch } from './batch/runner';
+export { parseBatchInput, readBatchFile, BatchInputError, BatchInputFormat } from './batch/input';
+export { formatBatchReport, BatchReportFormat } from './batch/report';
+export { detectRunPlan, DetectionResult } from './detect';
+export { CassetteMismatchError } from './llm/cassette';
+export { LLMProvider, AgentMessage, AgentToolCall, ToolDefinition } from './llm/providers/types';
+export { RunEventEmitter, RunEventMap, RunEventName, RunEvent } from './core/events';
+export { RunSession, SessionStatus, SessionState } from './process/session';
+export { loadRecipe, saveRecipe, recipeStorePath } from './recipes/store';
@@ -0,0 +1,195 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as logger from '../utils/logger';
+import { redactValue } from '../utils/redact';
+import { CassetteOptions, ToolResult } from '../config';
+import { AgentToolCall, ChatRequest, ChatResponse, LLMProvider } from './providers/types';
+import { DetectionResult } from '../detect';
+
+export const CASSETTE_VERSION = 1;
+
+interface ChatInteraction {
+    type: 'chat';
+    request: Omit<ChatRequest, 'tools'>; // Tool definitions are static and omitted to keep cassettes small
+    response: ChatResponse;
+}
+
+interface ToolInteraction {
+    type: 'tool';
+    call: { name: string; arguments: unknown };
+    result: ToolResult;
+}
+
+type CassetteInteraction = ChatInteraction | ToolInteraction;
+
+export interface CassetteFile {
+    version: number;
+    recordedAt: string;
+    repoUrl: string;
+    commitHash: string;
+    provider: string;
+    model: string;
+    initialStructure: string | null;
+    detection?: DetectionResult | null;
+    interactions: CassetteInteraction[];
+}
+
+export interface Cassette {
+    mode: CassetteOptions['mode'];
+    /** Directory listing captured at record time; used instead of cloning in replay mode. */
+    readonly initialStructure: string | null;
+    setInitialStructure(structure: string): void;
+    /** Run plan detection captured at record time; used instead of re-detecting in replay mode. */
+    readonly detection: DetectionResult | null;
+    setDetection(detection: DetectionResult): void;
+    /** In record mode wraps the live provider; in replay mode ignores it and serves recorded turns. */
+    wrapProvider(provider: LLMProvider | null): LLMProvider;
+    /** In record mode runs `execute` and stores the result; in replay mode returns the recorded result. */
+    executeTool(toolCall: AgentToolCall, execute: () => Promise<ToolResult>): Promise<ToolResult>;
+    save(): Promise<void>;
+}
+
+/**
+ * Thrown in replay mode when the agent loop diverges from the recorded interactions.
+ */
+export class CassetteMismatchError extends Error {
+    constructor(message: string, public readonly diff: string) {
+        super(`${message}\n${diff}`);
+        this.name = 'CassetteMismatchError';
+    }
+}
+
+function parseArguments(rawArguments: string): unknown {
+    try {
+        return JSON.parse(rawArguments);
+    } catch {
+        return rawArguments; // Keep unparsable arguments verbatim so they still compare exactly
+    }
+}
+
+/**
+ * Produces a line-based diff of two values' pretty-printed JSON ("-" recorded, "+" actual).
+ */
+export function formatJsonDiff(expected: unknown, actual: unknown): string {
+    const a = JSON.stringify(expected, null, 2)?.split('\n') ?? ['undefined'];
+    const b = JSON.stringify(actual, null, 2)?.split('\n') ?? ['undefined'];
+
+    // Longest common subsequence table
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: string[] = ['--- recorded', '+++ actual'];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push(`  ${a[i]}`);
+            i++; j++;
+        } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push(`- ${a[i]}`);
+            i++;
+        } else {
+            lines.push(`+ ${b[j]}`);
+            j++;
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Opens a cassette for recording or replay.
+ * @param options Cassette mode and file path.
+ * @param meta Run metadata stored in the cassette header when recording.
+ */
+export async function openCassette(
+    options: CassetteOptions,
+    meta: { repoUrl: string; commitHash: string; provider: string; model: string }
+): Promise<Cassette> {
+    let file: CassetteFile;
+
+    if (options.mode === 'replay') {
+        const raw = await fs.readFile(options.path, 'utf-8');
+        file = JSON.parse(raw);
+        if (file.version !== CASSETTE_VERSION) {
+            throw new Error(`Unsupported cassette version ${file.version} in ${options.path} (expected ${CASSETTE_VERSION}).`);
+        }
+        logger.log(`Replaying cassette ${options.path} (${file.interactions.length} interactions, recorded ${file.recordedAt}).`);
+    } else {
+        file = { version: CASSETTE_VERSION, recordedAt: new Date().toISOString(), ...meta, initialStructure: null, interactions: [] };
+        logger.log(`Recording cassette to ${options.path}.`);
+    }
+
+    let cursor = 0; // Replay position in file.interactions
+
+    const nextInteraction = <T extends CassetteInteraction['type']>(type: T, actual: unknown): Extract<CassetteInteraction, { type: T }> => {
+        const recorded = file.interactions[cursor];
+        if (!recorded) {
+            throw new CassetteMismatchError(`Cassette exhausted: no recorded interaction left for ${type} #${cursor + 1}.`, formatJsonDiff(undefined, actual));
+        }
+        if (recorded.type !== type) {
+            const recordedSummary = recorded.type === 'tool' ? recorded.call : { type: 'chat' };
+            throw new CassetteMismatchError(`Expected a recorded '${recorded.type}' interaction at #${cursor + 1}, but the run requested '${type}'.`, formatJsonDiff(recordedSummary, actual));
+        }
+        cursor++;
+        return recorded as Extract<CassetteInteraction, { type: T }>;
+    };
+
+    return {
+        mode: options.mode,
+        get initialStructure() {
+            return file.initialStructure;
+        },
+        setInitialStructure(structure: string) {
+            if (options.mode === 'record') file.initialStructure = structure;
+        },
+        get detection() {
+            return file.detection ?? null;
+        },
+        setDetection(detection: DetectionResult) {
+            if (options.mode === 'record') file.detection = detection;
+        },
+        wrapProvider(provider: LLMProvider | null): LLMProvider {
+            if (options.mode === 'replay') {
+                return {
+                    name: `replay:${file.provider}`,
+                    async chat(request: ChatRequest): Promise<ChatResponse> {
+                        return nextInteraction('chat', { type: 'chat', messages: request.messages.length }).response;
+                    },
+                };
+            }
+            if (!provider) throw new Error("A live LLM provider is required in cassette record mode.");
+            return {
+                name: provider.name,
+                async chat(request: ChatRequest): Promise<ChatResponse> {
+                    const response = await provider.chat(request);
+                    file.interactions.push({ type: 'chat', request: { model: request.model, messages: [...request.messages] }, response });
+                    return response;
+                },
+            };
+        },
+        async executeTool(toolCall: AgentToolCall, execute: () => Promise<ToolResult>): Promise<ToolResult> {
+            const call = { name: toolCall.name, arguments: parseArguments(toolCall.arguments) };
+            if (options.mode === 'replay') {
+                const recorded = nextInteraction('tool', call);
+                if (JSON.stringify(recorded.call) !== JSON.stringify(call)) {
+                    throw new CassetteMismatchError(`Tool call #${cursor} does not match the cassette.`, formatJsonDiff(recorded.call, call));
+                }
+                logger.log(`Replayed recorded result for tool '${toolCall.name}'.`);
+                return recorded.result;
+            }
+            const result = await execute();
+            file.interactions.push({ type: 'tool', call, result });
+            return result;
+        },
+        async save(): Promise<void> {
+            if (options.mode !== 'record') return;
+            await fs.mkdir(path.dirname(path.resolve(options.path)), { recursive: true });
+            await fs.writeFile(options.path, JSON.stringify(redactValue(file), null, 2)); // Cassettes are shared: no secrets on disk
+            logger.log(`Cassette saved to ${options.path} (${file.interactions.length} interactions).`);
+        },
+    };
+}
@@ -0,0 +1,248 @@
+import {
+    CONTEXT_DEFAULT_MAX_TOKENS,
+    CONTEXT_KEEP_RECENT_TURNS,
+    CONTEXT_CHARS_PER_TOKEN,
+    CONTEXT_MESSAGE_OVERHEAD_TOKENS,
+    CONTEXT_STALE_RESULT_LENGTH,
+    CONTEXT_SUMMARY_MAX_LINES,
+    CONTEXT_SUMMARY_HEADER,
+    ContextOptions
+} from '../config';
+import { AgentMessage, AgentToolCall, AssistantMessage, ToolDefinition, ToolMessage } from './providers/types';
+
+// Keeps the conversation sent to the LLM within a token budget.
+// Compaction works on whole turns (an assistant message plus the tool results answering it), so every
+// tool result still follows the assistant message that requested it.
+
+const READ_TOOLS = new Set(['inspectFile', 'readCommandLog', 'searchFiles', 'listDirectory']);
+const WRITE_TOOLS = new Set(['createFile', 'editFile', 'patchFile']);
+const DROPPED_RESULT_REGEX = /^\[\w+ result dropped during context compaction \((.*)\)\. /;
+
+export interface CompactionResult {
+    messages: AgentMessage[];
+    tokensBefore: number;
+    tokensAfter: number;
+    summarizedTurns: number; // Turns folded into the summary note
+    droppedResults: number; // Tool results replaced by a stub or cut short
+}
+
+/**
+ * Estimates the token count of a text. Deliberately rough: used for budgeting, not billing.
+ * @param text The text.
+ * @returns Estimated tokens.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CONTEXT_CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimates the tokens a single message adds to the prompt, including its tool calls.
+ * @param message The message.
+ * @returns Estimated tokens.
+ */
+export function estimateMessageTokens(message: AgentMessage): number {
+    let tokens = CONTEXT_MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content || '');
+    if (message.role === 'assistant') {
+        for (const tc of message.toolCalls || []) {
+            tokens += CONTEXT_MESSAGE_OVERHEAD_TOKENS + estimateTokens(tc.name + tc.arguments);
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Estimates the prompt size of a chat request.
+ * @param messages The conversation.
+ * @param tools Tool definitions sent with every request.
+ * @returns Estimated tokens.
+ */
+export function estimateConversationTokens(messages: AgentMessage[], tools: ToolDefinition[] = []): number {
+    const toolTokens = tools.length ? estimateTokens(JSON.stringify(tools)) : 0;
+    return messages.reduce((sum, message) => sum + estimateMessageTokens(message), toolTokens);
+}
+
+function isSummaryMessage(message: AgentMessage): boolean {
+    return message.role === 'user' && message.content.startsWith(CONTEXT_SUMMARY_HEADER);
+}
+
+function parseArguments(toolCall: AgentToolCall): Record<string, any> {
+    try {
+        const parsed = JSON.parse(toolCall.arguments || '{}');
+        return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+function clip(text: string, length: number): string {
+    const singleLine = text.replace(/\s+/g, ' ').trim();
+    return singleLine.length > length ? singleLine.substring(0, length) + '...' : singleLine;
+}
+
+/**
+ * Short, human-readable form of a tool call for the summary note.
+ */
+function describeToolCall(toolCall: AgentToolCall): string {
+    const args = parseArguments(toolCall);
+    if (toolCall.name === 'runCommand' && args.command) {
+        const commandLine = [args.command, ...(Array.isArray(args.args) ? args.args : [])].join(' ');
+        const flags = [args.isLongRunning ? 'long-running' : null, args.serviceName ? `service ${args.serviceName}` : null].filter(Boolean);
+        return `runCommand \`${clip(commandLine, 150)}\`${flags.length ? ` (${flags.join(', ')})` : ''}`;
+    }
+    if (args.filePath) return `${toolCall.name} ${args.filePath}`;
+    const rendered = JSON.stringify(args);
+    return rendered === '{}' ? toolCall.name : `${toolCall.name} ${clip(rendered, 120)}`;
+}
+
+/**
+ * Outcome of a tool call, read from its (possibly truncated) JSON result.
+ */
+function describeToolOutcome(content: string): string {
+    const dropped = content.match(DROPPED_RESULT_REGEX);
+    if (dropped) return dropped[1]; // Stub left by an earlier compaction
+    let result: Record<string, any> | null = null;
+    try {
+        result = JSON.parse(content);
+    } catch {
+        // Truncated results are no longer valid JSON; fall back to pattern matching below
+    }
+    const success = result ? result.success : /"success":\s*true/.test(content) ? true : /"success":\s*false/.test(content) ? false : undefined;
+    const exitCode = result ? result.exitCode : (content.match(/"exitCode":\s*(-?\d+)/) || [])[1];
+    const error = result ? result.error : (content.match(/"error":\s*"((?:[^"\\]|\\.)*)/) || [])[1];
+
+    if (success === true) return exitCode !== undefined && exitCode !== null ? `ok (exit ${exitCode})` : 'ok';
+    const details = [exitCode !== undefined && exitCode !== null ? `exit ${exitCode}` : null, error ? clip(String(error), 200) : null].filter(Boolean);
+    return `FAILED${details.length ? `: ${details.join(', ')}` : ''}`;
+}
+
+/**
+ * Replaces the content of a tool result that is no longer worth resending.
+ * @returns true if the message changed.
+ */
+function shrinkToolResult(message: ToolMessage, stale: boolean, outcome: string): boolean {
+    if (message.content.length <= CONTEXT_STALE_RESULT_LENGTH) return false;
+    if (stale || READ_TOOLS.has(message.name)) {
+        message.content = `[${message.name} result dropped during context compaction (${outcome}). Call the tool again if you still need it.]`;
+    } else {
+        message.content = message.content.substring(0, CONTEXT_STALE_RESULT_LENGTH) + '... (compacted)';
+    }
+    return true;
+}
+
+/**
+ * Splits the conversation into the fixed head (system prompt, task, summary note) and turns.
+ * A turn starts at an assistant message and holds the tool results that follow it.
+ */
+function splitTurns(messages: AgentMessage[]): { head: AgentMessage[]; summary: string[]; turns: AgentMessage[][] } {
+    const head: AgentMessage[] = [];
+    const summary: string[] = [];
+    const turns: AgentMessage[][] = [];
+    for (const message of messages) {
+        if (isSummaryMessage(message)) {
+            summary.push(...message.content.substring(CONTEXT_SUMMARY_HEADER.length).split('\n').filter(line => line.trim()));
+        } else if (message.role === 'assistant' || turns.length) {
+            if (message.role === 'assistant') turns.push([]);
+            turns[turns.length - 1].push(message);
+        } else {
+            head.push(message);
+        }
+    }
+    return { head, summary, turns };
+}
+
+/**
+ * Compacts the conversation if its estimated size exceeds the budget. In order, until it fits:
+ * 1. Drop stale file contents: reads superseded by a later read or write of the same file, and
+ *    large read/log/search results of older turns.
+ * 2. Fold older turns into a running "what has been tried" note sent after the task prompt.
+ * 3. Cut large tool results of the recent turns, except the latest one.
+ * The input array is not modified.
+ * @param messages The conversation, as sent to the provider.
+ * @param tools Tool definitions (counted against the budget).
+ * @param options Budget and number of recent turns kept verbatim.
+ * @returns The compacted conversation, or null if it is within budget.
+ */
+export function compactMessages(messages: AgentMessage[], tools: ToolDefinition[], options: ContextOptions = {}): CompactionResult | null {
+    const maxTokens = options.maxTokens ?? CONTEXT_DEFAULT_MAX_TOKENS;
+    const keepRecentTurns = Math.max(options.keepRecentTurns ?? CONTEXT_KEEP_RECENT_TURNS, 1);
+    const tokensBefore = estimateConversationTokens(messages, tools);
+    if (tokensBefore <= maxTokens) return null;
+
+    // Work on copies: messages are shared with the cassette and event listeners
+    const { head, summary, turns } = splitTurns(messages.map(message => ({ ...message }) as AgentMessage));
+    const olderCount = Math.max(turns.length - keepRecentTurns, 0);
+    let droppedResults = 0;
+    let summarizedTurns = 0;
+
+    const build = (): AgentMessage[] => {
+        const summaryLines = summary.length > CONTEXT_SUMMARY_MAX_LINES
+            ? [`- (${summary.length - CONTEXT_SUMMARY_MAX_LINES + 1} earlier steps omitted)`, ...summary.slice(-(CONTEXT_SUMMARY_MAX_LINES - 1))]
+            : summary;
+        const summaryMessage: AgentMessage[] = summaryLines.length
+            ? [{ role: 'user', content: `${CONTEXT_SUMMARY_HEADER}\n${summaryLines.join('\n')}` }]
+            : [];
+        return [...head, ...summaryMessage, ...turns.slice(summarizedTurns).reduce((all, turn) => all.concat(turn), [] as AgentMessage[])];
+    };
+    const fits = () => estimateConversationTokens(build(), tools) <= maxTokens;
+
+    // Outcomes are read before any result is shrunk
+    const outcomes = new Map<string, string>();
+    for (const turn of turns) {
+        for (const message of turn) if (message.role === 'tool') outcomes.set(message.toolCallId, describeToolOutcome(message.content));
+    }
+
+    // 1. Stale file contents
+    const calls = new Map<string, { toolCall: AgentToolCall; turn: number; order: number }>();
+    let order = 0;
+    turns.forEach((turn, index) => {
+        for (const message of turn) {
+            if (message.role !== 'assistant') continue;
+            for (const toolCall of message.toolCalls || []) calls.set(toolCall.id, { toolCall, turn: index, order: order++ });
+        }
+    });
+    const lastTouched = new Map<string, number>(); // filePath -> order of the latest read or write
+    calls.forEach(({ toolCall, order: callOrder }) => {
+        if (toolCall.name !== 'inspectFile' && !WRITE_TOOLS.has(toolCall.name)) return;
+        const filePath = parseArguments(toolCall).filePath;
+        if (filePath) lastTouched.set(filePath, callOrder);
+    });
+    turns.forEach((turn, index) => {
+        for (const message of turn) {
+            if (message.role !== 'tool') continue;
+            const call = calls.get(message.toolCallId);
+            const filePath = call && call.toolCall.name === 'inspectFile' ? parseArguments(call.toolCall).filePath : undefined;
+            const superseded = filePath !== undefined && lastTouched.get(filePath) > call.order;
+            if ((superseded || index < olderCount) && shrinkToolResult(message, superseded, outcomes.get(message.toolCallId))) droppedResults++;
+        }
+    });
+
+    // 2. Summarize older turns
+    if (!fits()) {
+        for (const turn of turns.slice(0, olderCount)) {
+            const assistant = turn[0] as AssistantMessage;
+            if (assistant.content) summary.push(`- Model noted: ${clip(assistant.content, 200)}`);
+            for (const toolCall of assistant.toolCalls || []) {
+                summary.push(`- ${describeToolCall(toolCall)} -> ${outcomes.get(toolCall.id) || 'no result'}`);
+            }
+        }
+        summarizedTurns = olderCount;
+    }
+
+    // 3. Cut large results of the recent turns, keeping the latest turn intact
+    if (!fits()) {
+        for (const turn of turns.slice(summarizedTurns, -1)) {
+            for (const message of turn) {
+                if (message.role === 'tool' && shrinkToolResult(message, false, outcomes.get(message.toolCallId))) droppedResults++;
+            }
+        }
+    }
+
+    const compacted = build();
+    return {
+        messages: compacted,
+        tokensBefore,
+        tokensAfter: estimateConversationTokens(compacted, tools),
+        summarizedTurns,
+        droppedResults,
+    };
+}
@@ -1,26 +1,35 @@
-import { ChatCompletionMessageToolCall } from 'openai/resources/chat/completions';
 import { promises as fs } from 'fs';
 import path from 'path';
 import * as logger from '../utils/logger';
 import { resolveSecurePath } from '../utils/pathUtils';
-import { executeCommand, runningProcesses, terminateTrackedProcess } from '../process/manager';
-import { MAX_FILE_CONTENT_LENGTH, ToolResult, ProcessInfo } from '../config';
+import { applySearchReplace, applyUnifiedDiff } from '../utils/patchUtils';
+import { listDirectory, searchFiles, sliceFileContent } from '../utils/explore';
+import { executeCommand, getTrackedService, listTrackedServices, runningProcesses, terminateService, terminateTrackedProcess } from '../process/manager';
+import { probeUrl } from '../process/probe';
+import { getListeningSocketsForProcessTree, isProcfsAvailable } from '../process/sockets';
+import { readCommandLog } from '../process/logs';
+import { isValidEnvName, hasVariable } from '../process/environment';
+import { enforceCommandPolicy } from '../policy/engine';
+import { ToolResult, ProcessInfo, RunContext, ServiceEndpoint, ServiceStatus } from '../config';
+import { AgentToolCall } from './providers/types';
 
 /**
  * Executes a tool call requested by the LLM.
- * @param toolCall The tool call object from the LLM response.
- * @param repoPath The absolute path to the repository working directory.
+ * @param toolCall The provider-neutral tool call from the LLM response.
+ * @param context The current run: repository path, run options and execution backend.
  * @returns A promise resolving to a ToolResult object.
  */
 export async function executeToolCall(
-    toolCall: ChatCompletionMessageToolCall,
-    repoPath: string
+    toolCall: AgentToolCall,
+    context: RunContext
 ): Promise<ToolResult> {
-    const functionName = toolCall.function.name;
+    const { repoPath, options, config, backend, policyDecisions, modifiedFiles, env, secrets } = context;
+    const commandEnv = { ...env, ...secrets };
+    const functionName = toolCall.name;
     let args: any;
 
     try {
-        args = JSON.parse(toolCall.function.arguments);
+        args = JSON.parse(toolCall.arguments);
     } catch (parseError: any) {
         logger.error(`Error parsing arguments for tool ${functionName}: ${parseError}`);
         return { success: false, error: `Failed to parse arguments: ${parseError.message}` };
@@ -31,7 +40,7 @@ export async function executeToolCall(
 
     try {
         // --- File Operations ---
-        if (["inspectFile", "createFile", "editFile"].includes(functionName)) {
+        if (["inspectFile", "createFile", "editFile", "patchFile"].includes(functionName)) {
             if (!args.filePath) {
                 throw new Error("filePath argument is missing.");
             }
@@ -39,8 +48,23 @@ export async function executeToolCall(
 
             if (functionName === "inspectFile") {
                 const content = await fs.readFile(safeFilePath, 'utf-8');
-                logger.log(`inspectFile: Read ${args.filePath}, returning ${Math.min(content.length, MAX_FILE_CONTENT_LENGTH)} chars.`);
-                return { success: true, content: content.substring(0, MAX_FILE_CONTENT_LENGTH) };
+                const slice = sliceFileContent(content, { startLine: args.startLine, endLine: args.endLine, offset: args.offset }, config.maxFileContentLength);
+                logger.log(`inspectFile: Read ${args.filePath}, returning ${slice.content.length} chars.`);
+                return { success: true, ...slice };
+            } else if (functionName === "patchFile") {
+                const hasEdits = Array.isArray(args.edits) && args.edits.length > 0;
+                const hasDiff = typeof args.unifiedDiff === 'string' && args.unifiedDiff.length > 0;
+                if (hasEdits === hasDiff) {
+                    throw new Error("Provide exactly one of 'edits' (search/replace blocks) or 'unifiedDiff'.");
+                }
+                const original = await fs.readFile(safeFilePath, 'utf-8');
+                // All-or-nothing: nothing is written unless every edit/hunk applies exactly
+                const patched = hasEdits ? applySearchReplace(original, args.edits) : applyUnifiedDiff(original, args.unifiedDiff);
+                await fs.writeFile(safeFilePath, patched);
+                modifiedFiles.add(path.relative(repoPath, safeFilePath));
+                const summary = hasEdits ? `${args.edits.length} edit(s)` : 'unified diff';
+                logger.log(`patchFile: Applied ${summary} to ${args.filePath}.`);
+                return { success: true, message: `Applied ${summary} to ${args.filePath}.` };
             } else { // createFile or editFile
                 if (typeof args.content !== 'string') {
                     throw new Error("content argument must be a string for file creation/editing.");
@@ -49,6 +73,7 @@ export async function executeToolCall(
                     await fs.mkdir(path.dirname(safeFilePath), { recursive: true });
                 }
                 await fs.writeFile(safeFilePath, args.content);
+                modifiedFiles.add(path.relative(repoPath, safeFilePath));
                 const action = functionName === 'createFile' ? 'created' : 'edited';
                 logger.log(`${functionName}: File ${args.filePath} ${action}.`);
                 return { success: true, message: `File ${args.filePath} ${action}.` };
@@ -59,25 +84,143 @@ export async function executeToolCall(
             if (!args.command || !Array.isArray(args.args)) {
                 throw new Error("command (string) and args (array) are required for runCommand.");
             }
+            const decision = await enforceCommandPolicy(args.command, args.args, repoPath, {
+                policy: options.policy,
+                onApprovalRequired: options.onApprovalRequired,
+                decisions: policyDecisions,
+                events: options.events,
+            });
+            if (decision.action === 'deny') {
+                return {
+                    success: false,
+                    error: `Command blocked by policy rule '${decision.ruleId ?? 'default'}': ${decision.reason} Choose a different approach.`,
+                    policy: { ruleId: decision.ruleId, action: decision.action, reason: decision.reason },
+                };
+            }
             // Directly call the process manager function
             // The process manager now handles killing previous long-running processes internally
-            return await executeCommand(repoPath, args.command, args.args, args.isLongRunning, args.timeout);
+            const startup = args.readyPattern
+                ? { ...options.startup, readyPatterns: [...(options.startup?.readyPatterns || []), args.readyPattern] }
+                : options.startup;
+            return await executeCommand(repoPath, args.command, args.args, args.isLongRunning, args.timeout, { events: options.events, backend, config, env: commandEnv, outputToLog: options.outputToLog, startup, serviceName: args.serviceName });
+        }
+        // --- Repository Exploration ---
+        else if (functionName === "listDirectory") {
+            const listing = await listDirectory(repoPath, args.path, { depth: args.depth, showSizes: args.showSizes, includeIgnored: args.includeIgnored, ignored: config.ignoredPaths });
+            return { success: true, content: listing.content, truncated: listing.truncated };
+        } else if (functionName === "searchFiles") {
+            const search = await searchFiles(repoPath, {
+                pattern: args.pattern,
+                isRegex: args.isRegex,
+                ignoreCase: args.ignoreCase,
+                glob: args.glob,
+                path: args.path,
+                contextLines: args.contextLines,
+                maxResults: args.maxResults,
+                includeIgnored: args.includeIgnored,
+                ignored: config.ignoredPaths,
+            });
+            return { success: true, ...search };
+        }
+        // --- Command Logs ---
+        else if (functionName === "readCommandLog") {
+            if (!args.logId) throw new Error("logId argument is missing.");
+            const page = await readCommandLog(repoPath, args.logId, { offset: args.offset, limit: args.limit, grep: args.grep, ignoreCase: args.ignoreCase });
+            return { success: true, ...page };
+        }
+        // --- Services ---
+        else if (functionName === "listServices") {
+            const canSeeSockets = backend.ownsHostSockets && await isProcfsAvailable();
+            const services: ServiceStatus[] = await Promise.all(listTrackedServices(repoPath).map(async (service: ProcessInfo) => ({
+                serviceName: service.serviceName!,
+                pid: service.pid,
+                command: service.command,
+                startedAt: service.startedAt || null,
+                ports: canSeeSockets ? (await getListeningSocketsForProcessTree(service.pid)).map(socket => socket.port) : null,
+                recentOutput: (service.output || []).slice(-10),
+            })));
+            return { success: true, services, message: services.length ? `${services.length} service(s) running.` : 'No services are running.' };
+        } else if (functionName === "stopService") {
+            if (!args.serviceName) throw new Error("serviceName argument is missing.");
+            const stopped = await terminateService(repoPath, args.serviceName);
+            return stopped
+                ? { success: true, serviceName: args.serviceName, message: `Service '${args.serviceName}' stopped.` }
+                : { success: false, serviceName: args.serviceName, error: `No process is running for service '${args.serviceName}'.` };
+        } else if (functionName === "restartService") {
+            if (!args.serviceName) throw new Error("serviceName argument is missing.");
+            const service = getTrackedService(repoPath, args.serviceName);
+            if (!service?.executable || !service.args) {
+                return { success: false, serviceName: args.serviceName, error: `Service '${args.serviceName}' is not tracked; start it with runCommand instead.` };
+            }
+            // executeCommand stops the service's current process before starting the new one
+            return await executeCommand(repoPath, service.executable, service.args, true, undefined, { events: options.events, backend, config, env: commandEnv, outputToLog: options.outputToLog, startup: options.startup, serviceName: args.serviceName });
+        }
+        // --- Run Environment ---
+        else if (functionName === "setEnv") {
+            if (!isValidEnvName(args.name)) throw new Error("name must be a valid environment variable name (letters, digits and '_', not starting with a digit).");
+            if (hasVariable(secrets, args.name)) {
+                return { success: false, error: `'${args.name}' is a secret provided by the caller and cannot be changed.` };
+            }
+            if (args.value === undefined || args.value === null) {
+                delete env[args.name];
+                return { success: true, message: `Removed ${args.name} from the run environment.` };
+            }
+            env[args.name] = String(args.value);
+            return { success: true, message: `Set ${args.name} for all later commands. Restart running services for them to pick it up.` };
+        } else if (functionName === "getEnv") {
+            const secretNames = Object.keys(secrets).sort();
+            if (args.name) {
+                if (hasVariable(secrets, args.name)) return { success: true, secrets: [args.name], message: `${args.name} is a secret: it is set, but its value is hidden.` };
+                if (hasVariable(env, args.name)) return { success: true, variables: { [args.name]: env[args.name] } };
+                return { success: false, error: `${args.name} is not set for this run.` };
+            }
+            return { success: true, variables: { ...env }, secrets: secretNames };
         }
         // --- Final Outcome Markers ---
         else if (functionName === "markRunning") {
             if (!args.deploymentUrl) throw new Error("deploymentUrl argument is missing.");
-            logger.log(`✅ LLM marked project as running: ${args.deploymentUrl}`);
-            const runningProcInfo = runningProcesses.get(repoPath); // Get info if tracked
-            const notes = `${args.notes || 'None'} ${runningProcInfo ? `(Tracked background process PID: ${runningProcInfo.pid})` : '(No tracked background process)'}`;
+            const requested: { serviceName?: string; url: string }[] = [
+                { serviceName: args.serviceName, url: args.deploymentUrl },
+                ...(Array.isArray(args.additionalUrls) ? args.additionalUrls : []),
+            ];
+            if (requested.some(entry => !entry?.url)) throw new Error("every entry of additionalUrls needs a url.");
+            logger.log(`LLM claims project is running: ${requested.map(entry => entry.url).join(', ')}`);
+            const services = listTrackedServices(repoPath);
+
+            // Verify every claimed URL before accepting it; a failed probe goes back to the model as a tool error
+            const endpoints: ServiceEndpoint[] = [];
+            for (const entry of requested) {
+                // An unlabeled URL belongs to the only service, or may be served by any of them
+                const service = entry.serviceName ? getTrackedService(repoPath, entry.serviceName) : (services.length === 1 ? services[0] : undefined);
+                if (entry.serviceName && !service) {
+                    return { success: false, error: `Service '${entry.serviceName}' is not running. Running services: ${services.map(s => s.serviceName).join(', ') || 'none'}.` };
+                }
+                let probe: ToolResult['probe'];
+                if (options.readiness !== false) {
+                    // Container backends publish ports through a proxy, so the tracked PID never owns the socket
+                    const readiness = backend.ownsHostSockets ? options.readiness || {} : { ...options.readiness, verifySocketOwnership: false };
+                    probe = await probeUrl(entry.url, readiness, service ? [service.pid] : services.map(s => s.pid));
+                    if (!probe.ok) {
+                        logger.warn(`Readiness probe failed for ${entry.url}: ${probe.error}`);
+                        return { success: false, error: `Readiness probe failed for ${entry.url}: ${probe.error}`, probe };
+                    }
+                }
+                endpoints.push({ serviceName: service?.serviceName ?? null, url: entry.url, pid: service?.pid ?? null, probe });
+            }
+
+            logger.log(`✅ Project verified as running: ${endpoints.map(e => e.serviceName ? `${e.serviceName}=${e.url}` : e.url).join(', ')}`);
+            const tracked = services.map(s => `'${s.serviceName}' PID ${s.pid}`).join(', ');
+            const notes = `${args.notes || 'None'} ${tracked ? `(Tracked background services: ${tracked})` : '(No tracked background process)'}`;
             logger.log(`Notes: ${notes}`);
             // Return the special structure indicating a final outcome
-            return { success: true, finalOutcome: { status: 'success', url: args.deploymentUrl, notes: notes } };
+            return { success: true, finalOutcome: { status: 'success', url: args.deploymentUrl, notes: notes, probe: endpoints[0].probe, endpoints } };
         } else if (functionName === "markUnrunnable") {
             if (!args.reason) throw new Error("reason argument is missing.");
             logger.log(`❌ LLM marked project as unrunnable: ${args.reason}`);
             // Attempt cleanup kill for any tracked process for this repo when marked unrunnable
             await terminateTrackedProcess(repoPath, runningProcesses);
-            return { success: true, finalOutcome: { status: 'failure', url: null, notes: args.reason } };
+            await backend.dispose(repoPath);
+            return { success: true, finalOutcome: { status: 'failure', failureReason: 'unrunnable', url: null, notes: args.reason } };
         }
         // --- Unknown Tool ---
         else {
@@ -1,18 +1,71 @@
 
-export function getSystemPrompt(tempRepoPath: string): string {
+export function getSystemPrompt(tempRepoPath: string, config: RunConfig = DEFAULT_RUN_CONFIG): string {
     return `You are an expert build automation agent (RepoRunnerAgent). Your goal is to analyze the cloned code repository at path '${tempRepoPath}' and determine how to install dependencies and run it.
-                - Use available tools ('inspectFile', 'createFile', 'editFile', 'runCommand') to understand the project and set it up.
-                - **CRITICAL**: For commands that start servers or background tasks (like 'npm start', 'yarn dev', 'docker compose up'), you **MUST** use the parameter \`"isLongRunning": true\` in 'runCommand'. The tool will monitor initial output for ~${SERVER_START_TIMEOUT / 1000}s and report if startup *looks* successful (returning PID). The process runs detached in the background.
-                - If a long-running command seems successful (tool result has \`success: true\`), use 'markRunning' with the likely URL (use 'detectedPort' from the tool result if available). Include the PID in your notes.
+                - Use available tools ('listDirectory', 'searchFiles', 'inspectFile', 'createFile', 'patchFile', 'editFile', 'runCommand', 'setEnv', 'getEnv') to understand the project and set it up. The initial file listing is shallow: use 'listDirectory' and 'searchFiles' to explore large repositories, and 'inspectFile' with a line range or offset to read long files. Use 'patchFile' to change existing files; 'editFile' replaces the whole file.
+                - **CRITICAL**: For commands that start servers or background tasks (like 'npm start', 'yarn dev', 'docker compose up'), you **MUST** use the parameter \`"isLongRunning": true\` in 'runCommand'. The tool waits until the process tree listens on a TCP port (up to ${config.serverStartTimeout / 1000}s) and reports the PID and the real port as 'detectedPort'. The process runs detached in the background.
+                - If a long-running command seems successful (tool result has \`success: true\`), use 'markRunning' with the likely URL (use 'detectedPort' from the tool result if available). Include the PID in your notes. The URL is probed over HTTP before it is accepted; if the probe fails you get the status/error back and should investigate (wrong port, app still starting, error page) instead of concluding.
                 - If a long-running command fails its initial check (\`success: false\`) or any command fails, analyze the output/error, try alternative steps if reasonable, or use 'markUnrunnable' with the reason.
+                - Apps made of several long-running processes (e.g. an API and a frontend dev server, or a web app and a worker) can run side by side: give each one a 'serviceName' in 'runCommand'. Use 'listServices', 'stopService' and 'restartService' to manage them, and report every URL in 'markRunning' ('additionalUrls', labeled by service).
+                - Command results only show the end of the output. Each result has a 'logId'; use 'readCommandLog' to page through or grep the complete output (e.g. to find the first error of a failed build).
+                - Environment variables set with 'setEnv' apply to every later 'runCommand' of the run; use it to configure the app (ports, database URLs, feature flags) instead of writing .env files where possible.
                 - For short commands (like 'npm install', 'make build'), use 'runCommand' normally (omit \`isLongRunning\` or set to \`false\`). The tool waits for completion.
                 - Background processes from successful 'isLongRunning: true' commands will be automatically terminated *after* the entire analysis finishes (whether you call markRunning or markUnrunnable).
                 - Final actions: Call 'markRunning' or 'markUnrunnable' to conclude the process.`;
 }
 
-export function getInitialUserPrompt(tempRepoPath: string,  initialStructure: string): string {
+export function getInitialUserPrompt(tempRepoPath: string,  initialStructure: string, planHint?: string): string {
     // Prompt content remains the same, just adding types
-    return `Analyze the repository at ${tempRepoPath} and determine how to run it. Initial file structure:\n\`\`\`\n${initialStructure}\n\`\`\`\nPlease start by inspecting relevant config/readme files. Remember to use \`isLongRunning: true\` for server start commands and conclude with 'markRunning' or 'markUnrunnable'.`
+    const hint = planHint
+        ? `\nA static analysis of the repository files suggests the following run plan. Treat it as a starting hypothesis and verify it, not as ground truth:\n\`\`\`\n${planHint}\n\`\`\`\n`
+        : '';
+    return `Analyze the repository at ${tempRepoPath} and determine how to run it. Initial file structure:\n\`\`\`\n${initialStructure}\n\`\`\`\n${hint}Please start by inspecting relevant config/readme files. Remember to use \`isLongRunning: true\` for server start commands and conclude with 'markRunning' or 'markUnrunnable'.`
 }
 
-import {SERVER_START_TIMEOUT} from "../config";
+/**
+ * Tells the LLM which dependency directories were restored from the cache before it started.
+ */
+export function getDependencyCachePrompt(restored: string[]): string {
+    return `These dependency directories were restored from a cache of an earlier run with identical lockfiles: ${restored.join(', ')}. Installing dependencies should be quick or unnecessary; reinstall only if they turn out to be broken.`;
+}
+
+/**
+ * Asks the LLM to keep the apps of this run inside its reserved port range (other runs use the
+ * ports around it).
+ */
+export function getPortRangePrompt(range: PortRange): string {
+    return `Other apps run on this machine at the same time. Start every server of this repository on a port between ${range.start} and ${range.end}: the PORT environment variable is set to ${range.start} for all commands, and for tools that ignore it pass the port explicitly (e.g. \`--port ${range.start}\`, \`-p ${range.start}\`). Give additional services the next ports of the range.`;
+}
+
+/**
+ * Lists the variables set for every command of the run. Secret values are never included.
+ */
+export function getEnvironmentPrompt(env: Record<string, string>, secretNames: string[]): string {
+    const variables = Object.keys(env).sort().map(name => `- ${name}=${env[name]}`);
+    const secrets = [...secretNames].sort().map(name => `- ${name} (secret, value hidden)`);
+    return `These environment variables are set for every command of this run:\n${[...variables, ...secrets].join('\n')}\nUse them instead of hard-coding values. Change or add variables with 'setEnv' rather than writing .env files; secrets cannot be changed.`;
+}
+
+/**
+ * Describes a partially successful recipe replay so the LLM continues from the failing step
+ * instead of starting over.
+ */
+export function getRecipeFallbackPrompt(completedSteps: string[], failedStep: string, failureResult: string, skippedSteps: string[]): string {
+    const list = (steps: string[]) => steps.length ? steps.map((step, i) => `${i + 1}. ${step}`).join('\n') : '(none)';
+    return `A recipe saved from an earlier successful run of this repository was replayed before you were involved.
+The following steps succeeded and their effects are already in place (do not repeat them unless needed):
+${list(completedSteps)}
+
+This step failed:
+${failedStep}
+Result:
+\`\`\`
+${failureResult}
+\`\`\`
+
+These remaining recipe steps were not run:
+${list(skippedSteps)}
+
+The repository has probably changed since the recipe was recorded. Investigate the failure and continue from here.`;
+}
+
+import {DEFAULT_RUN_CONFIG, PortRange, RunConfig} from "../config";
@@ -0,0 +1,110 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { MessageParam, Tool, ContentBlockParam } from '@anthropic-ai/sdk/resources/messages';
+import * as logger from '../../utils/logger';
+import { ANTHROPIC_MAX_TOKENS, LLMOptions } from '../../config';
+import { AgentMessage, AgentToolCall, ChatRequest, ChatResponse, LLMProvider, ToolDefinition } from './types';
+
+function parseToolInput(rawArguments: string): unknown {
+    try {
+        return JSON.parse(rawArguments || '{}');
+    } catch {
+        return {}; // Anthropic requires an object; the executor reports the parse failure itself
+    }
+}
+
+/**
+ * Anthropic takes the system prompt separately and expects tool results as user-turn content
+ * blocks. Consecutive tool messages are merged into a single user message.
+ */
+function toAnthropicMessages(messages: AgentMessage[]): { system: string; messages: MessageParam[] } {
+    const systemParts: string[] = [];
+    const converted: MessageParam[] = [];
+
+    const appendUserBlocks = (blocks: ContentBlockParam[]) => {
+        const last = converted[converted.length - 1];
+        if (last && last.role === 'user' && Array.isArray(last.content)) {
+            last.content.push(...blocks);
+        } else {
+            converted.push({ role: 'user', content: blocks });
+        }
+    };
+
+    for (const message of messages) {
+        switch (message.role) {
+            case 'system':
+                systemParts.push(message.content);
+                break;
+            case 'user':
+                appendUserBlocks([{ type: 'text', text: message.content }]);
+                break;
+            case 'assistant': {
+                const blocks: ContentBlockParam[] = [];
+                if (message.content) blocks.push({ type: 'text', text: message.content });
+                for (const tc of message.toolCalls || []) {
+                    blocks.push({ type: 'tool_use', id: tc.id, name: tc.name, input: parseToolInput(tc.arguments) });
+                }
+                converted.push({ role: 'assistant', content: blocks });
+                break;
+            }
+            case 'tool':
+                appendUserBlocks([{ type: 'tool_result', tool_use_id: message.toolCallId, content: message.content }]);
+                break;
+        }
+    }
+    return { system: systemParts.join('\n\n'), messages: converted };
+}
+
+function toAnthropicTools(tools: ToolDefinition[]): Tool[] {
+    return tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: { type: 'object', ...tool.parameters },
+    }));
+}
+
+export function createAnthropicProvider(options: LLMOptions): LLMProvider {
+    if (!options.apiKey) {
+        throw new Error("Anthropic API key is required.");
+    }
+    logger.log("Initializing Anthropic provider...");
+    const client = new Anthropic({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+    return {
+        name: 'anthropic',
+        async chat(request: ChatRequest): Promise<ChatResponse> {
+            const { system, messages } = toAnthropicMessages(request.messages);
+            const response = await client.messages.create({
+                model: request.model,
+                max_tokens: ANTHROPIC_MAX_TOKENS,
+                system: system || undefined,
+                messages,
+                tools: toAnthropicTools(request.tools),
+                tool_choice: { type: 'auto' },
+            });
+
+            const textParts: string[] = [];
+            const toolCalls: AgentToolCall[] = [];
+            for (const block of response.content) {
+                if (block.type === 'text') {
+                    textParts.push(block.text);
+                } else if (block.type === 'tool_use') {
+                    toolCalls.push({ id: block.id, name: block.name, arguments: JSON.stringify(block.input ?? {}) });
+                }
+            }
+            const text = textParts.join('\n');
+
+            return {
+                message: response.content.length > 0 ? {
+                    role: 'assistant',
+                    content: text || null,
+                    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                } : null,
+                usage: {
+                    promptTokens: response.usage.input_tokens,
+                    completionTokens: response.usage.output_tokens,
+                    totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+                },
+            };
+        },
+    };
+}
@@ -0,0 +1,33 @@
+import { DEFAULT_LLM_MODELS, LLMOptions, RunOptions } from '../../config';
+import { LLMProvider } from './types';
+import { createOpenAIProvider, createAzureOpenAIProvider, createOpenAICompatibleProvider } from './openai';
+import { createAnthropicProvider } from './anthropic';
+
+/**
+ * Resolves the LLM settings for a run. Falls back to OpenAI with `openaiApiKey`
+ * when no explicit `llm` block is given. The model is `llm.model`, else the configured
+ * model (RunConfig.model), else the provider default.
+ */
+export function resolveLLMOptions(options: RunOptions, configuredModel: string | null = null): LLMOptions & { model: string } {
+    const llm: LLMOptions = options.llm || { provider: 'openai' };
+    const apiKey = llm.apiKey ?? (llm.provider === 'openai' ? options.openaiApiKey : undefined);
+    return { ...llm, apiKey, model: llm.model || configuredModel || DEFAULT_LLM_MODELS[llm.provider] };
+}
+
+/**
+ * Creates a fresh provider instance for a single run.
+ */
+export function createProvider(llm: LLMOptions): LLMProvider {
+    switch (llm.provider) {
+        case 'openai':
+            return createOpenAIProvider(llm);
+        case 'azure':
+            return createAzureOpenAIProvider(llm);
+        case 'openai-compatible':
+            return createOpenAICompatibleProvider(llm);
+        case 'anthropic':
+            return createAnthropicProvider(llm);
+        default:
+            throw new Error(`Unsupported LLM provider: ${(llm as LLMOptions).provider}`);
+    }
+}
@@ -0,0 +1,108 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import * as logger from '../../utils/logger';
+import { AZURE_OPENAI_API_VERSION, LLMOptions } from '../../config';
+import { AgentMessage, ChatRequest, ChatResponse, LLMProvider, ToolDefinition } from './types';
+
+function toOpenAIMessages(messages: AgentMessage[]): ChatCompletionMessageParam[] {
+    return messages.map((message): ChatCompletionMessageParam => {
+        switch (message.role) {
+            case 'assistant':
+                return {
+                    role: 'assistant',
+                    content: message.content,
+                    ...(message.toolCalls?.length ? {
+                        tool_calls: message.toolCalls.map(tc => ({
+                            id: tc.id,
+                            type: 'function' as const,
+                            function: { name: tc.name, arguments: tc.arguments },
+                        })),
+                    } : {}),
+                };
+            case 'tool':
+                return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+            default:
+                return { role: message.role, content: message.content };
+        }
+    });
+}
+
+function toOpenAITools(tools: ToolDefinition[]): ChatCompletionTool[] {
+    return tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    }));
+}
+
+/**
+ * Wraps any client speaking the OpenAI Chat Completions API (OpenAI, Azure, local servers).
+ */
+function createChatCompletionsProvider(name: string, client: OpenAI): LLMProvider {
+    return {
+        name,
+        async chat(request: ChatRequest): Promise<ChatResponse> {
+            const response = await client.chat.completions.create({
+                model: request.model,
+                messages: toOpenAIMessages(request.messages),
+                tools: toOpenAITools(request.tools),
+                tool_choice: "auto",
+            });
+
+            const responseMessage = response.choices[0]?.message;
+            return {
+                message: responseMessage ? {
+                    role: 'assistant',
+                    content: responseMessage.content ?? null,
+                    toolCalls: responseMessage.tool_calls?.map(tc => ({
+                        id: tc.id,
+                        name: tc.function.name,
+                        arguments: tc.function.arguments,
+                    })),
+                } : null,
+                usage: response.usage ? {
+                    promptTokens: response.usage.prompt_tokens,
+                    completionTokens: response.usage.completion_tokens,
+                    totalTokens: response.usage.total_tokens,
+                } : undefined,
+            };
+        },
+    };
+}
+
+export function createOpenAIProvider(options: LLMOptions): LLMProvider {
+    if (!options.apiKey) {
+        throw new Error("OpenAI API key is required.");
+    }
+    logger.log("Initializing OpenAI provider...");
+    return createChatCompletionsProvider('openai', new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL }));
+}
+
+export function createAzureOpenAIProvider(options: LLMOptions): LLMProvider {
+    if (!options.apiKey) {
+        throw new Error("Azure OpenAI API key is required.");
+    }
+    if (!options.baseURL) {
+        throw new Error("Azure OpenAI endpoint (baseURL) is required.");
+    }
+    logger.log(`Initializing Azure OpenAI provider (endpoint: ${options.baseURL})...`);
+    const client = new AzureOpenAI({
+        apiKey: options.apiKey,
+        endpoint: options.baseURL,
+        apiVersion: options.apiVersion || AZURE_OPENAI_API_VERSION,
+        deployment: options.deployment,
+    });
+    return createChatCompletionsProvider('azure', client);
+}
+
+/**
+ * OpenAI-compatible local endpoints (Ollama, vLLM, llama.cpp server) usually ignore the API key,
+ * but the SDK requires a non-empty value.
+ */
+export function createOpenAICompatibleProvider(options: LLMOptions): LLMProvider {
+    if (!options.baseURL) {
+        throw new Error("baseURL is required for an OpenAI-compatible provider (e.g. 'http://localhost:11434/v1').");
+    }
+    logger.log(`Initializing OpenAI-compatible provider (baseURL: ${options.baseURL})...`);
+    const client = new OpenAI({ apiKey: options.apiKey || 'not-needed', baseURL: options.baseURL });
+    return createChatCompletionsProvider('openai-compatible', client);
+}
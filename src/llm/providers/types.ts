@@ -0,0 +1,63 @@
+/**
+ * Provider-neutral message and tool shapes used by the agent loop.
+ * Each provider translates these to and from its own wire format.
+ */
+
+export interface AgentToolCall {
+    id: string;
+    name: string;
+    arguments: string; // Raw JSON string, as produced by the model
+}
+
+export interface SystemMessage {
+    role: 'system';
+    content: string;
+}
+
+export interface UserMessage {
+    role: 'user';
+    content: string;
+}
+
+export interface AssistantMessage {
+    role: 'assistant';
+    content: string | null;
+    toolCalls?: AgentToolCall[];
+}
+
+export interface ToolMessage {
+    role: 'tool';
+    toolCallId: string;
+    name: string;
+    content: string;
+}
+
+export type AgentMessage = SystemMessage | UserMessage | AssistantMessage | ToolMessage;
+
+export interface ToolDefinition {
+    name: string;
+    description: string;
+    parameters: Record<string, any>; // JSON schema
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+}
+
+export interface ChatRequest {
+    model: string;
+    messages: AgentMessage[];
+    tools: ToolDefinition[];
+}
+
+export interface ChatResponse {
+    message: AssistantMessage | null;
+    usage?: TokenUsage;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    chat(request: ChatRequest): Promise<ChatResponse>;
+}
@@ -1,17 +1,24 @@
-import { ChatCompletionTool } from 'openai/resources/chat/completions';
 import {
-    MAX_FILE_CONTENT_LENGTH,
-    SERVER_START_TIMEOUT,
-    DEFAULT_COMMAND_TIMEOUT
+    DEFAULT_RUN_CONFIG,
+    DEFAULT_SERVICE_NAME,
+    COMMAND_LOG_PAGE_LINES,
+    LIST_DIRECTORY_DEFAULT_DEPTH,
+    SEARCH_MAX_RESULTS,
+    RunConfig
 } from '../config';
+import { ToolDefinition } from './providers/types';
 
-// Define the tools for the LLM
-export const tools: ChatCompletionTool[] = [
-    {
-        type: "function",
-        function: {
+/**
+ * Tool definitions for the LLM (provider-neutral; each provider translates them).
+ * Descriptions quote the limits of the run's configuration.
+ * @param config The run configuration.
+ * @returns The tool definitions.
+ */
+export function getTools(config: RunConfig = DEFAULT_RUN_CONFIG): ToolDefinition[] {
+    return [
+        {
             name: "inspectFile",
-            description: `Reads the content of a specific file within the cloned repository. Returns up to ${MAX_FILE_CONTENT_LENGTH} characters.`,
+            description: `Reads the content of a specific file within the cloned repository. Returns up to ${config.maxFileContentLength} characters; for longer files, continue with 'offset' (from 'nextOffset') or read a line range.`,
             parameters: {
                 type: "object",
                 properties: {
@@ -19,14 +26,91 @@ export const tools: ChatCompletionTool[] = [
                         type: "string",
                         description: "The relative path to the file from the repository root (e.g., 'package.json', 'README.md', 'src/index.js').",
                     },
+                    startLine: {
+                        type: "integer",
+                        description: "Optional first line to read (1-based, inclusive).",
+                    },
+                    endLine: {
+                        type: "integer",
+                        description: "Optional last line to read (1-based, inclusive).",
+                    },
+                    offset: {
+                        type: "integer",
+                        description: "Optional character offset to start reading from (ignored when a line range is given).",
+                    },
                 },
                 required: ["filePath"],
             },
         },
-    },
-    {
-        type: "function",
-        function: {
+        {
+            name: "listDirectory",
+            description: "Lists a directory of the repository as a tree. Entries ignored by .gitignore (and node_modules etc.) are hidden unless 'includeIgnored' is set.",
+            parameters: {
+                type: "object",
+                properties: {
+                    path: {
+                        type: "string",
+                        description: "Directory relative to the repository root. Default: the root.",
+                    },
+                    depth: {
+                        type: "integer",
+                        description: `How many levels to descend (1 = direct children only). Default: ${LIST_DIRECTORY_DEFAULT_DEPTH}.`,
+                    },
+                    showSizes: {
+                        type: "boolean",
+                        description: "Show file sizes.",
+                    },
+                    includeIgnored: {
+                        type: "boolean",
+                        description: "Also list ignored files and directories.",
+                    },
+                },
+            },
+        },
+        {
+            name: "searchFiles",
+            description: "Searches file contents in the repository (like 'grep -rn'), returning 'path:line: text' matches. Respects .gitignore; skips binary and very large files.",
+            parameters: {
+                type: "object",
+                properties: {
+                    pattern: {
+                        type: "string",
+                        description: "Text to search for (literal unless 'isRegex' is true).",
+                    },
+                    isRegex: {
+                        type: "boolean",
+                        description: "Treat 'pattern' as a JavaScript regular expression.",
+                    },
+                    ignoreCase: {
+                        type: "boolean",
+                        description: "Case-insensitive search.",
+                    },
+                    glob: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Only search files matching one of these globs (e.g. ['*.ts'], ['src/**/*.json']). Globs without '/' match file names.",
+                    },
+                    path: {
+                        type: "string",
+                        description: "Subdirectory to search in. Default: the whole repository.",
+                    },
+                    contextLines: {
+                        type: "integer",
+                        description: "Lines of context before and after each match.",
+                    },
+                    maxResults: {
+                        type: "integer",
+                        description: `Maximum number of matches. Default: ${SEARCH_MAX_RESULTS}.`,
+                    },
+                    includeIgnored: {
+                        type: "boolean",
+                        description: "Also search ignored files (e.g. node_modules).",
+                    },
+                },
+                required: ["pattern"],
+            },
+        },
+        {
             name: "createFile",
             description: "Creates a new file with the specified content. Useful for creating .env files from examples or instructions. Overwrites if the file exists.",
             parameters: {
@@ -44,12 +128,9 @@ export const tools: ChatCompletionTool[] = [
                 required: ["filePath", "content"],
             },
         },
-    },
-    {
-        type: "function",
-        function: {
+        {
             name: "editFile",
-            description: "WARNING: Overwrites the entire content of an existing file. Use cautiously, perhaps for minor config adjustments. Prefer createFile for .env.",
+            description: `WARNING: Overwrites the entire content of an existing file. inspectFile only returns the first ${config.maxFileContentLength} characters, so never use this on files you have not seen completely; use 'patchFile' for targeted changes. Prefer createFile for .env.`,
             parameters: {
                 type: "object",
                 properties: {
@@ -65,12 +146,39 @@ export const tools: ChatCompletionTool[] = [
                 required: ["filePath", "content"],
             },
         },
-    },
-    {
-        type: "function",
-        function: {
+        {
+            name: "patchFile",
+            description: "Applies targeted changes to an existing file, either as search/replace blocks or as a unified diff. Edits must match the current file exactly (whitespace included); if any edit does not apply, the file is left unchanged and an error explains why. Prefer this over 'editFile'.",
+            parameters: {
+                type: "object",
+                properties: {
+                    filePath: {
+                        type: "string",
+                        description: "The relative path of the file to patch.",
+                    },
+                    edits: {
+                        type: "array",
+                        description: "Search/replace blocks applied in order. Each 'search' must occur exactly once in the file.",
+                        items: {
+                            type: "object",
+                            properties: {
+                                search: { type: "string", description: "Exact text to find." },
+                                replace: { type: "string", description: "Replacement text." },
+                            },
+                            required: ["search", "replace"],
+                        },
+                    },
+                    unifiedDiff: {
+                        type: "string",
+                        description: "A unified diff with '@@ -a,b +c,d @@' hunk headers. Use instead of 'edits'.",
+                    },
+                },
+                required: ["filePath"],
+            },
+        },
+        {
             name: "runCommand",
-            description: `Executes a shell command. Use 'isLongRunning: true' for commands that start servers or background processes (e.g., 'npm start', 'npm run dev', 'docker compose up'). For these, the command runs detached, and the tool reports initial output success/failure within ${SERVER_START_TIMEOUT / 1000}s. For others ('isLongRunning: false' or omitted), it waits for completion or timeout (${DEFAULT_COMMAND_TIMEOUT / 1000}s default).`,
+            description: `Executes a shell command. Use 'isLongRunning: true' for commands that start servers or background processes (e.g., 'npm start', 'npm run dev', 'docker compose up'). For these, the command runs detached, and the tool returns as soon as the process listens on a TCP port (reported as 'detectedPort') or prints a ready pattern, or after at most ${config.serverStartTimeout / 1000}s. For others ('isLongRunning: false' or omitted), it waits for completion or timeout (${config.commandTimeout / 1000}s default).`,
             parameters: {
                 type: "object",
                 properties: {
@@ -90,24 +198,142 @@ export const tools: ChatCompletionTool[] = [
                     },
                     timeout: {
                         type: "integer",
-                        description: `Optional override timeout in milliseconds for non-long-running commands. Default: ${DEFAULT_COMMAND_TIMEOUT}ms. Ignored if isLongRunning=true.`,
+                        description: `Optional override timeout in milliseconds for non-long-running commands. Default: ${config.commandTimeout}ms. Ignored if isLongRunning=true.`,
+                    },
+                    readyPattern: {
+                        type: "string",
+                        description: "Optional case-insensitive regex for long-running commands: startup counts as successful as soon as the output matches it (useful for processes that do not listen on a port, e.g. 'Watching for file changes').",
+                    },
+                    serviceName: {
+                        type: "string",
+                        description: `Optional name for a long-running command (e.g. 'api', 'web', 'worker'). Starting a command replaces the previous process of the same service only, so several services can run side by side. Default: '${DEFAULT_SERVICE_NAME}'.`,
                     }
                 },
                 required: ["command", "args"],
             },
         },
-    },
-    {
-        type: "function",
-        function: {
+        {
+            name: "readCommandLog",
+            description: "Reads the complete output of an earlier 'runCommand' (including ongoing output of long-running services), identified by the 'logId' in its result. 'runCommand' results only contain the end of the output; use this to find the first error of a long install or build. Page with 'offset'/'limit', or search with 'grep'.",
+            parameters: {
+                type: "object",
+                properties: {
+                    logId: {
+                        type: "string",
+                        description: "The 'logId' from a runCommand result (e.g. 'cmd-003').",
+                    },
+                    offset: {
+                        type: "integer",
+                        description: "1-based line to start from; negative values count from the end (e.g. -100 for the last 100 lines). With 'grep', the position within the matches. Default: 1.",
+                    },
+                    limit: {
+                        type: "integer",
+                        description: `Maximum number of lines to return. Default: ${COMMAND_LOG_PAGE_LINES}.`,
+                    },
+                    grep: {
+                        type: "string",
+                        description: "Optional regex; only matching lines are returned (with their line numbers).",
+                    },
+                    ignoreCase: {
+                        type: "boolean",
+                        description: "Case-insensitive grep. Default: true.",
+                    },
+                },
+                required: ["logId"],
+            },
+        },
+        {
+            name: "listServices",
+            description: "Lists the long-running services currently running for this repository, with PID, command, listening ports and recent output.",
+            parameters: {
+                type: "object",
+                properties: {},
+            },
+        },
+        {
+            name: "stopService",
+            description: "Stops one long-running service (its whole process tree). Other services keep running.",
+            parameters: {
+                type: "object",
+                properties: {
+                    serviceName: {
+                        type: "string",
+                        description: "Name of the service to stop (see 'listServices').",
+                    },
+                },
+                required: ["serviceName"],
+            },
+        },
+        {
+            name: "restartService",
+            description: "Restarts one long-running service with the command it was started with, e.g. after changing its configuration. Reports startup like 'runCommand' with 'isLongRunning: true'.",
+            parameters: {
+                type: "object",
+                properties: {
+                    serviceName: {
+                        type: "string",
+                        description: "Name of the service to restart (see 'listServices').",
+                    },
+                },
+                required: ["serviceName"],
+            },
+        },
+        {
+            name: "setEnv",
+            description: "Sets or removes an environment variable for all later 'runCommand' calls of this run (including restarts of services). Prefer this over writing .env files for configuration such as ports or database URLs. Secrets provided by the caller cannot be changed.",
+            parameters: {
+                type: "object",
+                properties: {
+                    name: {
+                        type: "string",
+                        description: "Variable name, e.g. 'DATABASE_URL'.",
+                    },
+                    value: {
+                        type: "string",
+                        description: "New value. Omit to remove the variable.",
+                    },
+                },
+                required: ["name"],
+            },
+        },
+        {
+            name: "getEnv",
+            description: "Lists the environment variables set for this run's commands (by the caller or with 'setEnv'). Secret values are hidden; only their names are shown.",
+            parameters: {
+                type: "object",
+                properties: {
+                    name: {
+                        type: "string",
+                        description: "Optional variable name to look up instead of listing all.",
+                    },
+                },
+            },
+        },
+        {
             name: "markRunning",
-            description: "Call this function ONLY when you are confident the project is successfully running and likely accessible, providing the presumed local URL. This should typically follow a successful 'runCommand' with 'isLongRunning: true'.",
+            description: "Call this function ONLY when you are confident the project is successfully running and likely accessible, providing the presumed local URL. This should typically follow a successful 'runCommand' with 'isLongRunning: true'. The URL is verified with HTTP requests (and must be served by the tracked background process); if verification fails, an error is returned and you can keep working.",
             parameters: {
                 type: "object",
                 properties: {
                     deploymentUrl: {
                         type: "string",
-                        description: "The local URL where the application is likely running (e.g., 'http://localhost:3000', 'http://127.0.0.1:8080').",
+                        description: "The local URL where the application is likely running (e.g., 'http://localhost:3000', 'http://127.0.0.1:8080'). For multi-service apps, the main user-facing URL.",
+                    },
+                    serviceName: {
+                        type: "string",
+                        description: "Optional name of the service serving deploymentUrl.",
+                    },
+                    additionalUrls: {
+                        type: "array",
+                        description: "Optional further URLs of a multi-service app (e.g. the API next to the frontend), each labeled by its service. Every URL is verified.",
+                        items: {
+                            type: "object",
+                            properties: {
+                                serviceName: { type: "string" },
+                                url: { type: "string" },
+                            },
+                            required: ["serviceName", "url"],
+                        },
                     },
                     notes: {
                         type: "string",
@@ -117,10 +343,7 @@ export const tools: ChatCompletionTool[] = [
                 required: ["deploymentUrl"],
             },
         },
-    },
-    {
-        type: "function",
-        function: {
+        {
             name: "markUnrunnable",
             description: "Call this function ONLY when you have determined that the project cannot be run successfully after reasonable attempts, or setup instructions are missing/unclear.",
             parameters: {
@@ -134,5 +357,5 @@ export const tools: ChatCompletionTool[] = [
                 required: ["reason"],
             },
         },
-    },
-];
\ No newline at end of file
+    ];
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { DEFAULT_MODEL_PRICES, BudgetOptions, FailureReason, ModelPrice, UsageReport } from '../config';
+import { TokenUsage } from './providers/types';
+
+/**
+ * Thrown when a run exceeds one of its RunOptions.budget caps. The orchestrator turns it into a
+ * failure outcome with `reason` as the failureReason.
+ */
+export class BudgetExceededError extends Error {
+    constructor(public readonly reason: Extract<FailureReason, 'token_budget' | 'cost_budget' | 'time_budget'>, message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export interface UsageTracker {
+    add(usage: TokenUsage | undefined): void;
+    report(): UsageReport;
+    /** Throws BudgetExceededError if a cap is reached. `timeOnly` skips the token and cost caps. */
+    enforce(budget: BudgetOptions | undefined, timeOnly?: boolean): void;
+}
+
+/**
+ * Looks up the price of a model: exact match first, then the longest matching prefix.
+ * @param model Model name as sent to the provider.
+ * @param prices Price table (defaults to DEFAULT_MODEL_PRICES).
+ * @returns The price, or null if the model is unknown.
+ */
+export function findModelPrice(model: string, prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES): ModelPrice | null {
+    if (prices[model]) return prices[model];
+    const prefix = Object.keys(prices)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : null;
+}
+
+/**
+ * Accumulates token usage over the turns of a run and enforces its budget.
+ * @param model Model used for the run (for pricing).
+ * @param prices Overrides merged over DEFAULT_MODEL_PRICES.
+ * @param startedAt Start of the run, for the wall-clock cap and the reported duration.
+ * @returns The tracker.
+ */
+export function createUsageTracker(model: string, prices: Record<string, ModelPrice> = {}, startedAt: number = Date.now()): UsageTracker {
+    const price = findModelPrice(model, { ...DEFAULT_MODEL_PRICES, ...prices });
+    const totals = { turns: 0, promptTokens: 0, completionTokens: 0 };
+
+    const report = (): UsageReport => ({
+        model,
+        turns: totals.turns,
+        promptTokens: totals.promptTokens,
+        completionTokens: totals.completionTokens,
+        totalTokens: totals.promptTokens + totals.completionTokens,
+        costUsd: price
+            ? (totals.promptTokens * price.inputPerMillion + totals.completionTokens * price.outputPerMillion) / 1_000_000
+            : null,
+        durationMs: Date.now() - startedAt,
+    });
+
+    return {
+        add(usage) {
+            totals.turns++;
+            if (!usage) return; // Providers that report no usage (some OpenAI-compatible servers) count as zero
+            totals.promptTokens += usage.promptTokens;
+            totals.completionTokens += usage.completionTokens;
+        },
+        report,
+        enforce(budget, timeOnly = false) {
+            if (!budget) return;
+            const current = report();
+            if (budget.maxDurationMs !== undefined && current.durationMs >= budget.maxDurationMs) {
+                throw new BudgetExceededError('time_budget', `Time budget exceeded: ${Math.round(current.durationMs / 1000)}s elapsed (limit ${Math.round(budget.maxDurationMs / 1000)}s).`);
+            }
+            if (timeOnly) return;
+            if (budget.maxTokens !== undefined && current.totalTokens >= budget.maxTokens) {
+                throw new BudgetExceededError('token_budget', `Token budget exhausted: ${current.totalTokens} tokens used (limit ${budget.maxTokens}).`);
+            }
+            if (budget.maxCostUsd !== undefined) {
+                if (current.costUsd === null) {
+                    throw new BudgetExceededError('cost_budget', `Cost budget set, but no price is known for model '${model}'. Add it to RunOptions.prices.`);
+                }
+                if (current.costUsd >= budget.maxCostUsd) {
+                    throw new BudgetExceededError('cost_budget', `Cost budget exhausted: $${current.costUsd.toFixed(4)} spent (limit $${budget.maxCostUsd}).`);
+                }
+            }
+        },
+    };
+}
@@ -0,0 +1,126 @@
+import path from 'path';
+import * as logger from '../utils/logger';
+import { RunEventEmitter } from '../core/events';
+import { DEFAULT_POLICY_RULES } from './rules';
+import { CommandPolicy, PolicyAction, PolicyDecision, PolicyRule, ApprovalHandler } from '../config';
+
+/**
+ * Returns the rules in evaluation order: built-in rules first, then the caller's.
+ */
+function effectiveRules(policy: CommandPolicy | undefined): PolicyRule[] {
+    const custom = policy?.rules || [];
+    return policy?.useDefaultRules === false ? custom : [...DEFAULT_POLICY_RULES, ...custom];
+}
+
+const POLICY_ACTIONS: PolicyAction[] = ['allow', 'deny', 'require_approval'];
+
+function compile(pattern: string, ruleId: string): RegExp {
+    try {
+        return new RegExp(pattern);
+    } catch (error: any) {
+        throw new Error(`Invalid pattern in policy rule '${ruleId}': ${error.message}`);
+    }
+}
+
+/**
+ * A rule matches when every matcher it specifies matches (a rule without matchers matches everything).
+ */
+function ruleMatches(rule: PolicyRule, command: string, args: string[]): boolean {
+    if (rule.command !== undefined) {
+        const names = Array.isArray(rule.command) ? rule.command : [rule.command];
+        if (!names.includes(path.basename(command))) return false;
+    }
+    if (rule.argsPattern !== undefined && !compile(rule.argsPattern, rule.id).test(args.join(' '))) {
+        return false;
+    }
+    if (rule.pattern !== undefined && !compile(rule.pattern, rule.id).test([command, ...args].join(' '))) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Finds the first rule matching the command. Pure; no approval or recording.
+ */
+export function evaluateCommandPolicy(
+    command: string,
+    args: string[],
+    policy?: CommandPolicy
+): { action: PolicyAction; rule: PolicyRule | null } {
+    for (const rule of effectiveRules(policy)) {
+        if (ruleMatches(rule, command, args)) {
+            return { action: rule.action, rule };
+        }
+    }
+    return { action: policy?.defaultAction ?? 'allow', rule: null };
+}
+
+/**
+ * Validates all rule patterns up front, so a bad policy fails the run before any command executes.
+ * @throws Error naming the offending rule.
+ */
+export function validateCommandPolicy(policy?: CommandPolicy): void {
+    if (policy?.defaultAction !== undefined && !POLICY_ACTIONS.includes(policy.defaultAction)) {
+        throw new Error(`Invalid policy defaultAction '${policy.defaultAction}'.`);
+    }
+    for (const rule of effectiveRules(policy)) {
+        if (!rule.id) throw new Error("Every policy rule needs an 'id'.");
+        if (!POLICY_ACTIONS.includes(rule.action)) {
+            throw new Error(`Invalid action '${rule.action}' in policy rule '${rule.id}'.`);
+        }
+        if (rule.pattern !== undefined) compile(rule.pattern, rule.id);
+        if (rule.argsPattern !== undefined) compile(rule.argsPattern, rule.id);
+    }
+}
+
+/**
+ * Decides whether a command may run, asking the approval handler where a rule requires it.
+ * Every decision is appended to `decisions` and emitted as a 'policy:decision' event.
+ * @returns The recorded decision.
+ */
+export async function enforceCommandPolicy(
+    command: string,
+    args: string[],
+    repoPath: string,
+    settings: { policy?: CommandPolicy; onApprovalRequired?: ApprovalHandler; decisions: PolicyDecision[]; events?: RunEventEmitter }
+): Promise<PolicyDecision> {
+    const { action, rule } = evaluateCommandPolicy(command, args, settings.policy);
+    const decision: PolicyDecision = {
+        timestamp: new Date().toISOString(),
+        command,
+        args,
+        ruleId: rule?.id ?? null,
+        action: action === 'deny' ? 'deny' : 'allow',
+        reason: rule?.description ?? `No rule matched; default action '${settings.policy?.defaultAction ?? 'allow'}'.`,
+    };
+    const ruleReason = decision.reason; // Approval outcomes are appended to it
+
+    if (action === 'require_approval') {
+        if (!settings.onApprovalRequired) {
+            decision.action = 'deny';
+            decision.approval = 'unavailable';
+            decision.reason = `${ruleReason} (Requires approval, but no approval handler is configured.)`;
+        } else {
+            try {
+                const approved = await settings.onApprovalRequired({ command, args, repoPath, rule });
+                decision.approval = approved ? 'approved' : 'rejected';
+                decision.action = approved ? 'allow' : 'deny';
+                if (!approved) decision.reason = `${ruleReason} (Approval was declined.)`;
+            } catch (error: any) {
+                decision.approval = 'rejected';
+                decision.action = 'deny';
+                decision.reason = `${ruleReason} (Approval handler failed: ${error.message})`;
+            }
+        }
+    }
+
+    const label = `${command} ${args.join(' ')}`;
+    if (decision.action === 'deny') {
+        logger.warn(`Policy denied "${label}" (rule: ${decision.ruleId ?? 'default'}): ${decision.reason}`);
+    } else if (decision.ruleId) {
+        logger.log(`Policy allowed "${label}" (rule: ${decision.ruleId}${decision.approval ? `, ${decision.approval}` : ''}).`);
+    }
+    settings.decisions.push(decision);
+    settings.events?.emit('policy:decision', decision);
+    return decision;
+}
@@ -0,0 +1,39 @@
+import { PolicyRule } from '../config';
+
+/**
+ * Built-in rules applied before any caller-supplied rules (unless disabled with
+ * `useDefaultRules: false`). Patterns are tested against the full command line, so commands
+ * wrapped in `sh -c "..."` are caught as well. Rules are evaluated in order; the first match wins.
+ */
+export const DEFAULT_POLICY_RULES: PolicyRule[] = [
+    {
+        id: 'deny-privilege-escalation',
+        action: 'deny',
+        description: "Privilege escalation (sudo/su/doas) is not allowed. Run commands as the current user.",
+        pattern: '(^|[\\s;&|(])(sudo|su|doas)(\\s|$)',
+    },
+    {
+        id: 'deny-destructive-rm',
+        action: 'deny',
+        description: "Recursive deletion of the filesystem root or home directory is not allowed. Only delete paths inside the repository.",
+        pattern: '\\brm\\s+(-{1,2}[\\w-]+\\s+)*(/|/\\*|~|~/|~/\\*|\\$HOME|\\$HOME/|\\$\\{HOME\\})(\\s|$|;|&|\\|)',
+    },
+    {
+        id: 'deny-pipe-to-shell',
+        action: 'deny',
+        description: "Piping downloaded scripts into a shell (curl/wget ... | sh) is not allowed. Use the project's package manager instead.",
+        pattern: '\\b(curl|wget)\\b[^|]*\\|\\s*(sudo\\s+)?(env\\s+)?(ba|z|da|k)?sh\\b',
+    },
+    {
+        id: 'deny-privileged-container',
+        action: 'deny',
+        description: "Privileged containers and host namespace/root mounts are not allowed.",
+        pattern: '\\b(docker|podman)\\b.*(\\s--privileged\\b|\\s--(pid|net|network|ipc)[= ]host\\b|\\s-v\\s+/:)',
+    },
+    {
+        id: 'deny-system-control',
+        action: 'deny',
+        description: "Commands that change the state of the host system (shutdown, reboot, mkfs, ...) are not allowed.",
+        command: ['shutdown', 'reboot', 'halt', 'poweroff', 'mkfs', 'systemctl', 'init'],
+    },
+];
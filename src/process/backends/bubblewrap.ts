@@ -0,0 +1,82 @@
+import { existsSync, statSync } from 'fs';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import os from 'os';
+import path from 'path';
+import { SANDBOX_HIDDEN_HOME_PATHS, SandboxOptions } from '../../config';
+import { ExecutionBackend, CommandSpec, PreparedCommand } from './types';
+import { buildScrubbedEnv } from './env';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Linux namespace sandbox via bubblewrap (`bwrap`). The host filesystem is mounted read-only,
+ * the repository read-write, credential files in the home directory are masked, and the
+ * network namespace is unshared when `network: false`. Servers bind directly on the host
+ * network otherwise, so URLs given to markRunning work unchanged.
+ */
+export function createBubblewrapBackend(options: SandboxOptions): ExecutionBackend {
+    const binary = options.binary || 'bwrap';
+
+    const maskArgs = (): string[] => {
+        const args: string[] = [];
+        for (const relative of SANDBOX_HIDDEN_HOME_PATHS) {
+            const hostPath = path.join(os.homedir(), relative);
+            if (!existsSync(hostPath)) continue;
+            if (statSync(hostPath).isDirectory()) {
+                args.push('--tmpfs', hostPath);
+            } else {
+                args.push('--ro-bind', '/dev/null', hostPath);
+            }
+        }
+        return args;
+    };
+
+    return {
+        name: 'bubblewrap',
+        ownsHostSockets: true,
+        async verify() {
+            if (process.platform !== 'linux') {
+                throw new Error("The bubblewrap sandbox backend is only available on Linux.");
+            }
+            try {
+                await execFileAsync(binary, ['--version']);
+            } catch (error: any) {
+                throw new Error(`bubblewrap ('${binary}') is not available: ${error.message}`);
+            }
+        },
+        async prepare(spec: CommandSpec): Promise<PreparedCommand> {
+            const sandboxHome = path.join('/tmp', 'home');
+            const args = [
+                '--die-with-parent',
+                '--new-session',
+                '--unshare-pid',
+                '--unshare-ipc',
+                '--unshare-uts',
+                ...(options.network === false ? ['--unshare-net'] : []),
+                '--ro-bind', '/', '/',
+                '--dev', '/dev',
+                '--proc', '/proc',
+                '--tmpfs', '/tmp',
+                '--dir', sandboxHome,
+                ...maskArgs(),
+                '--bind', spec.repoPath, spec.repoPath,
+                '--chdir', spec.cwd,
+                '--',
+                spec.command,
+                ...spec.args,
+            ];
+            return {
+                command: binary,
+                args,
+                cwd: spec.cwd,
+                // Passed through bwrap's own environment rather than --setenv, keeping values out of argv
+                env: buildScrubbedEnv({ HOME: sandboxHome, ...spec.env }, options.allowEnv),
+                extendEnv: false,
+            };
+        },
+        async dispose() {
+            // --die-with-parent and the PID namespace take every sandboxed process down with bwrap
+        },
+    };
+}
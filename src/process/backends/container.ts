@@ -0,0 +1,108 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { createHash } from 'crypto';
+import * as logger from '../../utils/logger';
+import { SANDBOX_DEFAULT_IMAGE, SANDBOX_DEFAULT_PORTS, SANDBOX_WORKDIR, SandboxOptions } from '../../config';
+import { ExecutionBackend, CommandSpec, PreparedCommand } from './types';
+import { buildScrubbedEnv } from './env';
+import { isRegisteredSecret } from '../../utils/redact';
+import { isPortAvailable } from '../ports';
+
+const execFileAsync = promisify(execFile);
+
+const CONTAINER_LABEL = 'repo-runner.repo';
+
+function repoLabel(repoPath: string): string {
+    return createHash('sha256').update(repoPath).digest('hex').slice(0, 16);
+}
+
+/**
+ * Runs every command in a fresh Docker/Podman container with the repository bind-mounted
+ * read-write at SANDBOX_WORKDIR. Containers of long-running commands publish the configured
+ * ports on 127.0.0.1 under the same numbers, so `http://localhost:<port>` URLs keep working
+ * from the host; ports another service already holds are left to it.
+ */
+export function createContainerBackend(runtime: 'docker' | 'podman', options: SandboxOptions): ExecutionBackend {
+    const binary = options.binary || runtime;
+    const image = options.image || SANDBOX_DEFAULT_IMAGE;
+    const ports = options.ports || SANDBOX_DEFAULT_PORTS;
+    let containerCount = 0;
+
+    const toContainerPath = (spec: CommandSpec): string => {
+        const relative = spec.cwd.slice(spec.repoPath.length).replace(/\\/g, '/');
+        return `${SANDBOX_WORKDIR}${relative}`;
+    };
+
+    return {
+        name: runtime,
+        ownsHostSockets: false,
+        async verify() {
+            try {
+                await execFileAsync(binary, ['version', '--format', '{{.Client.Version}}']);
+            } catch (error: any) {
+                throw new Error(`${runtime} ('${binary}') is not available: ${error.message}`);
+            }
+        },
+        async prepare(spec: CommandSpec): Promise<PreparedCommand> {
+            const label = repoLabel(spec.repoPath);
+            // One-shot commands (installs, builds) publish nothing, so they never collide with a running server
+            const published: number[] = [];
+            if (spec.longRunning && options.network !== false) {
+                for (const port of ports) {
+                    if (await isPortAvailable(port)) published.push(port);
+                }
+                if (published.length < ports.length) {
+                    logger.warn(`Not publishing port(s) ${ports.filter(port => !published.includes(port)).join(', ')}: already in use on the host.`);
+                }
+            }
+            const env = buildScrubbedEnv({ HOME: '/tmp', ...spec.env }, options.allowEnv);
+            delete env.PATH; // Keep the image's own PATH
+            // The variables are for the container only; the client keeps its own environment
+            // (DOCKER_HOST, DOCKER_CONFIG, XDG_RUNTIME_DIR, ...). Secret values are handed over through
+            // the client's environment instead of argv, so they don't show up in `ps`.
+            const secretEnv: Record<string, string> = {};
+            const envArgs = Object.entries(env).reduce<string[]>((acc, [name, value]) => {
+                if (!isRegisteredSecret(value)) return acc.concat('-e', `${name}=${value}`);
+                secretEnv[name] = value;
+                return acc.concat('-e', name);
+            }, []);
+            const uid = process.getuid?.();
+            const gid = process.getgid?.();
+
+            const args = [
+                'run', '--rm', '--init',
+                '--name', `repo-runner-${label}-${++containerCount}`,
+                '--label', `${CONTAINER_LABEL}=${label}`,
+                '-v', `${spec.repoPath}:${SANDBOX_WORKDIR}`,
+                '-w', toContainerPath(spec),
+                // Files written in the container stay owned by the host user, so cleanup works
+                ...(uid !== undefined && gid !== undefined ? ['--user', `${uid}:${gid}`] : []),
+                ...(options.network === false ? ['--network', 'none'] : []),
+                ...published.reduce<string[]>((acc, port) => acc.concat('-p', `127.0.0.1:${port}:${port}`), []),
+                ...envArgs,
+                image,
+                spec.command,
+                ...spec.args,
+            ];
+            return {
+                command: binary,
+                args,
+                cwd: spec.cwd,
+                env: secretEnv,
+                extendEnv: true,
+            };
+        },
+        async dispose(repoPath: string) {
+            try {
+                const { stdout } = await execFileAsync(binary, ['ps', '-aq', '--filter', `label=${CONTAINER_LABEL}=${repoLabel(repoPath)}`]);
+                const ids = stdout.split('\n').map(id => id.trim()).filter(Boolean);
+                if (ids.length > 0) {
+                    logger.log(`Removing ${ids.length} leftover ${runtime} container(s) for ${repoPath}...`);
+                    await execFileAsync(binary, ['rm', '-f', ...ids]);
+                }
+            } catch (error: any) {
+                logger.warn(`Could not remove ${runtime} containers for ${repoPath}: ${error.message}`);
+            }
+        },
+    };
+}
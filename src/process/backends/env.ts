@@ -0,0 +1,19 @@
+import os from 'os';
+import { SANDBOX_ENV_PASSTHROUGH } from '../../config';
+
+/**
+ * Builds a minimal environment for isolated backends. Nothing from process.env is passed
+ * except the SANDBOX_ENV_PASSTHROUGH variables and any explicitly allowed names, so host
+ * credentials (OPENAI_API_KEY, GITHUB_TOKEN, ...) never reach repository code.
+ */
+export function buildScrubbedEnv(extra: Record<string, string>, allowEnv: string[] = []): Record<string, string> {
+    const env: Record<string, string> = {
+        PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+        HOME: os.tmpdir(),
+        FORCE_COLOR: '0',
+    };
+    for (const name of [...SANDBOX_ENV_PASSTHROUGH, ...allowEnv]) {
+        if (process.env[name] !== undefined) env[name] = process.env[name]!;
+    }
+    return { ...env, ...extra };
+}
@@ -0,0 +1,44 @@
+import { SandboxOptions } from '../../config';
+import { ExecutionBackend } from './types';
+import { createLocalBackend } from './local';
+import { createBubblewrapBackend } from './bubblewrap';
+import { createContainerBackend } from './container';
+
+// repoPath -> backend of the run using that checkout, so cleanupRepo can release what the backend
+// created for it (e.g. containers)
+const repoBackends = new Map<string, ExecutionBackend>();
+
+/**
+ * Records the backend a checkout's commands run through, for disposeRepoBackend.
+ */
+export function registerRepoBackend(repoPath: string, backend: ExecutionBackend): void {
+    repoBackends.set(repoPath, backend);
+}
+
+/**
+ * Releases what the backend of a checkout created for it and forgets the backend.
+ * Does nothing if no backend was registered for the checkout.
+ */
+export async function disposeRepoBackend(repoPath: string): Promise<void> {
+    const backend = repoBackends.get(repoPath);
+    repoBackends.delete(repoPath);
+    if (backend) await backend.dispose(repoPath);
+}
+
+/**
+ * Creates the execution backend for a run. Without sandbox options, commands run locally.
+ */
+export function createExecutionBackend(options?: SandboxOptions): ExecutionBackend {
+    switch (options?.backend ?? 'local') {
+        case 'local':
+            return createLocalBackend();
+        case 'bubblewrap':
+            return createBubblewrapBackend(options);
+        case 'docker':
+            return createContainerBackend('docker', options);
+        case 'podman':
+            return createContainerBackend('podman', options);
+        default:
+            throw new Error(`Unknown execution backend: ${options.backend}`);
+    }
+}
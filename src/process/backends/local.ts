@@ -0,0 +1,28 @@
+import { ExecutionBackend, CommandSpec, PreparedCommand } from './types';
+import { withoutSecrets } from '../../utils/redact';
+
+/**
+ * Runs commands directly on the host with the agent's own environment (the original behavior),
+ * minus variables holding the run's registered secrets (e.g. GITHUB_TOKEN, OPENAI_API_KEY).
+ */
+export function createLocalBackend(): ExecutionBackend {
+    return {
+        name: 'local',
+        ownsHostSockets: true,
+        async verify() {
+            // Always available
+        },
+        async prepare(spec: CommandSpec): Promise<PreparedCommand> {
+            return {
+                command: spec.command,
+                args: spec.args,
+                cwd: spec.cwd,
+                env: { ...withoutSecrets(process.env), FORCE_COLOR: '0', ...spec.env }, // Prevent ANSI color codes
+                extendEnv: false,
+            };
+        },
+        async dispose() {
+            // Nothing to release
+        },
+    };
+}
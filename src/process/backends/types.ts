@@ -0,0 +1,36 @@
+/**
+ * A command as requested by the agent, before it is mapped onto an execution backend.
+ */
+export interface CommandSpec {
+    command: string;
+    args: string[];
+    cwd: string; // Absolute path inside the repository on the host
+    repoPath: string; // Repository root on the host
+    env: Record<string, string>; // Extra variables for the command (on top of the backend's base environment)
+    longRunning: boolean; // Started detached to serve until stopped (e.g. a dev server)
+}
+
+/**
+ * The concrete process to spawn on the host for a CommandSpec.
+ */
+export interface PreparedCommand {
+    command: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string | undefined>;
+    extendEnv: boolean; // false: `env` is the complete environment (no inheritance from process.env)
+}
+
+export interface ExecutionBackend {
+    readonly name: string;
+    /**
+     * Whether processes started by this backend bind ports directly on the host, as descendants
+     * of the spawned PID. False for container runtimes, where a proxy owns the forwarded ports.
+     */
+    readonly ownsHostSockets: boolean;
+    /** Throws if the backend cannot be used on this host (e.g. missing binary). */
+    verify(): Promise<void>;
+    prepare(spec: CommandSpec): Promise<PreparedCommand>;
+    /** Releases anything the backend created for the repository (e.g. leftover containers). */
+    dispose(repoPath: string): Promise<void>;
+}
@@ -0,0 +1,39 @@
+import { SECRET_MIN_LENGTH } from '../config';
+
+// Per-run environment variables (RunOptions.env, RunOptions.secrets and the setEnv tool)
+
+const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Whether a string can be used as an environment variable name.
+ */
+export function isValidEnvName(name: string): boolean {
+    return typeof name === 'string' && ENV_NAME_REGEX.test(name);
+}
+
+/**
+ * Throws if a set of variables has an invalid name or a non-string value.
+ * @param variables The variables, e.g. RunOptions.env.
+ * @param source Where they came from, for the error message.
+ * @param secret Whether the values are secrets: values too short for redaction to mask are rejected.
+ */
+export function validateEnvironment(variables: Record<string, string> | undefined, source: string, secret: boolean = false): void {
+    if (variables === undefined) return;
+    if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+        throw new Error(`${source} must be an object of variable names to string values.`);
+    }
+    for (const [name, value] of Object.entries(variables)) {
+        if (!isValidEnvName(name)) throw new Error(`${source}: '${name}' is not a valid environment variable name.`);
+        if (typeof value !== 'string') throw new Error(`${source}: the value of '${name}' must be a string.`);
+        if (secret && value.length < SECRET_MIN_LENGTH) {
+            throw new Error(`${source}: the value of '${name}' is shorter than ${SECRET_MIN_LENGTH} characters and could not be hidden from the model.`);
+        }
+    }
+}
+
+/**
+ * Whether a variable is set (own property, so names like 'toString' are not mistaken for variables).
+ */
+export function hasVariable(variables: Record<string, string>, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(variables, name);
+}
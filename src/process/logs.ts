@@ -0,0 +1,187 @@
+import { promises as fs, createWriteStream, openSync, statSync, WriteStream } from 'fs';
+import { once } from 'events';
+import path from 'path';
+import * as logger from '../utils/logger';
+import { redact } from '../utils/redact';
+import { COMMAND_LOG_ROOT, COMMAND_LOG_PAGE_LINES, COMMAND_LOG_MAX_PAGE_LINES, COMMAND_LOG_MAX_LINE_LENGTH } from '../config';
+
+// Complete output of every command, one file per executeCommand invocation, grouped per repository.
+
+export interface CommandLog {
+    id: string;
+    path: string;
+    write(text: string): void;
+    close(): void;
+    /**
+     * Closes the handle and returns a file descriptor appending to the log, for a child process
+     * to write its output to directly. The caller closes the descriptor once the child has it.
+     */
+    handOff(): Promise<number>;
+}
+
+export interface CommandLogPage {
+    logId: string;
+    content: string; // Numbered lines
+    totalLines: number;
+    nextOffset: number | null; // Line to continue from, null at the end
+    matches?: number; // Total matching lines when grepping
+}
+
+export interface ReadCommandLogOptions {
+    offset?: number; // 1-based first line; negative counts from the end (e.g. -100 = last 100 lines)
+    limit?: number; // Max lines returned
+    grep?: string; // Only return lines matching this regex
+    ignoreCase?: boolean; // For grep (default: true)
+}
+
+const LOG_ID_PATTERN = /^cmd-\d+$/;
+const FOLLOW_POLL_INTERVAL = 250;
+const logCounters = new Map<string, number>();
+
+/**
+ * Directory holding the command logs of a repository checkout.
+ */
+export function commandLogDir(repoPath: string): string {
+    return path.join(COMMAND_LOG_ROOT, path.basename(repoPath));
+}
+
+function logFilePath(repoPath: string, logId: string): string {
+    if (!LOG_ID_PATTERN.test(logId)) throw new Error(`Invalid log id '${logId}'.`);
+    return path.join(commandLogDir(repoPath), `${logId}.log`);
+}
+
+/**
+ * Creates the log file for one command. The first line records the command itself.
+ * @param repoPath The repository the command runs in.
+ * @param commandStr The command line, for the header.
+ * @returns A handle that appends output until closed.
+ */
+export async function openCommandLog(repoPath: string, commandStr: string): Promise<CommandLog> {
+    const sequence = (logCounters.get(repoPath) || 0) + 1;
+    logCounters.set(repoPath, sequence);
+    const id = `cmd-${String(sequence).padStart(3, '0')}`;
+    const file = logFilePath(repoPath, id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+
+    const stream: WriteStream = createWriteStream(file, { flags: 'w' });
+    stream.on('error', error => logger.warn(`Command log ${file} failed: ${error.message}`));
+    stream.write(redact(`$ ${commandStr}\n`));
+    let closed = false;
+    let partialLine = ''; // Output is redacted line by line, so a secret split across chunks is still masked
+    return {
+        id,
+        path: file,
+        write(text: string) {
+            if (closed) return;
+            const lines = (partialLine + text).split('\n');
+            partialLine = lines.pop();
+            if (lines.length) stream.write(redact(lines.join('\n') + '\n'));
+        },
+        close() {
+            if (closed) return;
+            closed = true;
+            if (partialLine) stream.write(redact(partialLine));
+            stream.end();
+        },
+        async handOff() {
+            this.close();
+            if (!stream.closed) await once(stream, 'close');
+            return openSync(file, 'a');
+        },
+    };
+}
+
+/**
+ * Follows output appended to a log file, e.g. by a process that writes to it directly.
+ * @param file The log file.
+ * @param onText Called with each new chunk of output.
+ * @returns A function that reads what is left and stops following.
+ */
+export function followCommandLog(file: string, onText: (text: string) => void): () => Promise<void> {
+    let position = statSync(file).size;
+    let reading: Promise<void> = Promise.resolve();
+    const readNew = () => {
+        reading = reading.then(async () => {
+            const handle = await fs.open(file, 'r');
+            try {
+                const { size } = await handle.stat();
+                if (size <= position) return;
+                const buffer = Buffer.alloc(size - position);
+                const { bytesRead } = await handle.read(buffer, 0, buffer.length, position);
+                position += bytesRead;
+                onText(buffer.toString('utf-8', 0, bytesRead));
+            } finally {
+                await handle.close();
+            }
+        }).catch(error => logger.warn(`Following command log ${file} failed: ${error.message}`));
+        return reading;
+    };
+    const timer = setInterval(() => void readNew(), FOLLOW_POLL_INTERVAL);
+    timer.unref(); // Following never keeps this process alive
+    return async () => {
+        clearInterval(timer);
+        await readNew();
+    };
+}
+
+function clip(line: string): string {
+    return line.length > COMMAND_LOG_MAX_LINE_LENGTH ? `${line.slice(0, COMMAND_LOG_MAX_LINE_LENGTH)}... (${line.length} chars)` : line;
+}
+
+/**
+ * Reads a page of a command log, or the lines matching a regex.
+ * @param repoPath The repository the command ran in.
+ * @param logId The log id returned by runCommand.
+ * @param options Paging and grep options.
+ * @returns Numbered lines and where to continue.
+ * @throws Error if the log does not exist or the regex is invalid.
+ */
+export async function readCommandLog(repoPath: string, logId: string, options: ReadCommandLogOptions = {}): Promise<CommandLogPage> {
+    let raw: string;
+    try {
+        // Output of processes writing to the file directly was not redacted when written
+        raw = redact(await fs.readFile(logFilePath(repoPath, logId), 'utf-8'));
+    } catch (error: any) {
+        if (error.code === 'ENOENT') throw new Error(`No command log '${logId}' for this run.`);
+        throw error;
+    }
+    const lines = raw.split(/\r?\n/);
+    if (lines[lines.length - 1] === '') lines.pop();
+    const limit = Math.min(Math.max(options.limit ?? COMMAND_LOG_PAGE_LINES, 1), COMMAND_LOG_MAX_PAGE_LINES);
+
+    let numbered = lines.map((line, index) => ({ number: index + 1, line }));
+    let matches: number | undefined;
+    if (options.grep) {
+        const regex = new RegExp(options.grep, options.ignoreCase === false ? '' : 'i');
+        numbered = numbered.filter(entry => regex.test(entry.line));
+        matches = numbered.length;
+    }
+
+    let start = options.offset ?? 1;
+    if (options.grep) {
+        // With grep, offset is a position in the list of matches
+        start = start < 0 ? Math.max(numbered.length + start, 0) : Math.max(start - 1, 0);
+    } else {
+        start = start < 0 ? Math.max(lines.length + start, 0) : Math.max(start - 1, 0);
+    }
+    const page = numbered.slice(start, start + limit);
+    const end = start + page.length;
+
+    return {
+        logId,
+        content: page.map(entry => `${entry.number}: ${clip(entry.line)}`).join('\n'),
+        totalLines: lines.length,
+        nextOffset: end < numbered.length ? end + 1 : null,
+        matches,
+    };
+}
+
+/**
+ * Deletes all command logs of a repository checkout.
+ */
+export async function removeCommandLogs(repoPath: string): Promise<void> {
+    logCounters.delete(repoPath);
+    await fs.rm(commandLogDir(repoPath), { recursive: true, force: true }).catch(error =>
+        logger.warn(`Failed to remove command logs for ${repoPath}: ${error.message}`)
+    );
+}
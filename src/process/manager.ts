@@ -1,35 +1,200 @@
-const { execa } = await import('execa');
-import { ProcessInfo, DEFAULT_COMMAND_TIMEOUT, SERVER_START_TIMEOUT, MAX_TOOL_RESULT_LENGTH, ToolResult } from '../config';
+import { EventEmitter } from 'events';
+import { closeSync } from 'fs';
+import { ProcessInfo, DEFAULT_SERVICE_NAME, DEFAULT_RUN_CONFIG, STARTUP_POLL_INTERVAL, PROCESS_GROUP_CHECK_INTERVAL, PROCESS_OUTPUT_MAX_LINES, RunConfig, StartupOptions, ToolResult } from '../config';
 import * as logger from '../utils/logger';
+import { RunEventEmitter } from '../core/events';
+import { ExecutionBackend } from './backends/types';
+import { createLocalBackend } from './backends/local';
+import { getListeningSocketsForProcessTree, isProcfsAvailable } from './sockets';
+import { isProcessGroupAlive, terminateProcessTree } from './terminate';
+import { followCommandLog, openCommandLog } from './logs';
 
-// Map to store repoPath -> ProcessInfo for detached processes
-export const runningProcesses = new Map<string, ProcessInfo>();
+// repoPath -> serviceName -> ProcessInfo for detached processes that passed their startup check
+export type TrackedProcesses = Map<string, Map<string, ProcessInfo>>;
+export const runningProcesses: TrackedProcesses = new Map();
+
+// repoPath -> (pid -> serviceName) for every detached PID spawned, whatever its startup verdict,
+// so that teardown leaves no orphans
+export const spawnedProcesses = new Map<string, Map<number, string>>();
+
+export interface DetachedProcessExit {
+    repoPath: string;
+    serviceName: string;
+    pid: number;
+    exitCode: number | null;
+    signal: string | null;
+    afterStartup: boolean; // true if the process had already passed its startup check
+}
+
+export interface CommandContext {
+    events?: RunEventEmitter; // Notified when detached processes spawn and exit
+    backend?: ExecutionBackend; // Defaults to the local backend
+    startup?: StartupOptions; // Startup detection for long-running commands
+    serviceName?: string; // Service a long-running command belongs to. Default: DEFAULT_SERVICE_NAME
+    config?: RunConfig; // Timeouts and output limits of the run. Default: DEFAULT_RUN_CONFIG
+    env?: Record<string, string>; // Extra variables for the command (e.g. PORT of the run's port range)
+    outputToLog?: boolean; // Detached processes write to their command log instead of pipes, so they outlive this process
+}
+
+// Output heuristics, used only when no listening socket or ready pattern was seen before the startup timeout
+const OUTPUT_PORT_REGEX = /(?:localhost|127\.0\.0\.1|0\.0\.0\.0):(\d{4,5})|on port (\d{4,5})/i;
+const OUTPUT_SUCCESS_REGEX = /compiled successfully|ready on|listening on|server started|development server is running at|started successfully/i;
+
+function findPortInOutput(output: string): string | null {
+    const match = output.match(OUTPUT_PORT_REGEX);
+    return match ? (match[1] || match[2]) : null;
+}
+
+// Process-level notifications, independent of any single run ('exit' => DetachedProcessExit)
+export const processEvents = new EventEmitter();
+
+// execa is ESM-only and this package builds to CommonJS, so it is imported on first use
+type ExecaModule = typeof import('execa', { with: { 'resolution-mode': 'import' } });
+type ExecaOptions = import('execa', { with: { 'resolution-mode': 'import' } }).Options;
+let execaModule: Promise<ExecaModule> | null = null;
+function loadExeca(): Promise<ExecaModule> {
+    if (!execaModule) execaModule = import('execa');
+    return execaModule;
+}
+
+/**
+ * Returns a function that splits streamed chunks into lines and appends them to `buffer`,
+ * keeping at most PROCESS_OUTPUT_MAX_LINES lines.
+ */
+function createLineCollector(buffer: string[]): (text: string) => void {
+    let partial = '';
+    return (text: string) => {
+        const lines = (partial + text).split(/\r?\n/);
+        partial = lines.pop()!;
+        buffer.push(...lines);
+        if (buffer.length > PROCESS_OUTPUT_MAX_LINES) {
+            buffer.splice(0, buffer.length - PROCESS_OUTPUT_MAX_LINES);
+        }
+    };
+}
+
+/**
+ * Returns the tracked process of one service of a repo.
+ */
+export function getTrackedService(repoPath: string, serviceName: string = DEFAULT_SERVICE_NAME, processMap: TrackedProcesses = runningProcesses): ProcessInfo | undefined {
+    return processMap.get(repoPath)?.get(serviceName);
+}
+
+/**
+ * Returns the tracked processes of all services of a repo, in start order.
+ */
+export function listTrackedServices(repoPath: string, processMap: TrackedProcesses = runningProcesses): ProcessInfo[] {
+    return Array.from(processMap.get(repoPath)?.values() || []);
+}
+
+function trackService(repoPath: string, serviceName: string, processInfo: ProcessInfo): void {
+    if (!runningProcesses.has(repoPath)) runningProcesses.set(repoPath, new Map());
+    runningProcesses.get(repoPath)!.set(serviceName, processInfo);
+}
+
+/** Stops tracking a service, but only if `pid` is still its current process. */
+function untrackService(repoPath: string, serviceName: string, pid: number): void {
+    const services = runningProcesses.get(repoPath);
+    if (services?.get(serviceName)?.pid !== pid) return;
+    services.delete(serviceName);
+    if (services.size === 0) runningProcesses.delete(repoPath);
+}
+
+/**
+ * Stops tracking a spawned PID once its process group is empty, after which the PID may be reused
+ * by an unrelated process that teardown must not signal. Group members that outlive the leader
+ * still need teardown, so the group is checked again until they are gone.
+ */
+function releaseSpawnedProcess(repoPath: string, pid: number): void {
+    const spawned = spawnedProcesses.get(repoPath);
+    if (!spawned?.has(pid)) return; // Already terminated
+    if (isProcessGroupAlive(pid)) {
+        setTimeout(() => releaseSpawnedProcess(repoPath, pid), PROCESS_GROUP_CHECK_INTERVAL).unref();
+        return;
+    }
+    spawned.delete(pid);
+    if (spawned.size === 0) spawnedProcesses.delete(repoPath);
+}
+
+/**
+ * Terminates process trees: each process group is sent SIGTERM, escalated to SIGKILL
+ * after a grace period, and checked until it is gone.
+ * @returns The PIDs that survived.
+ */
+async function terminatePids(pids: number[]): Promise<number[]> {
+    const results = await Promise.all(pids.map(pid => terminateProcessTree(pid)));
+    return results.reduce((all, result) => all.concat(result.survivors), [] as number[]);
+}
+
+/**
+ * Terminates one service of a repo: its tracked process and any other detached process
+ * spawned for the same service (including ones that failed their startup check).
+ * @param repoPath The path associated with the service.
+ * @param serviceName The service to stop.
+ * @param processMap The map holding the tracked processes.
+ * @returns false if nothing was running for the service.
+ */
+export async function terminateService(repoPath: string, serviceName: string, processMap: TrackedProcesses = runningProcesses): Promise<boolean> {
+    const processInfo = processMap.get(repoPath)?.get(serviceName);
+    const spawned = spawnedProcesses.get(repoPath);
+    const pids = new Set<number>();
+    spawned?.forEach((name, pid) => { if (name === serviceName) pids.add(pid); });
+    if (processInfo) pids.add(processInfo.pid);
+    if (pids.size === 0) return false;
+
+    logger.log(`Terminating service '${serviceName}' of ${repoPath} (PIDs ${Array.from(pids).join(', ')})...`);
+    const survivors = await terminatePids(Array.from(pids));
+    processMap.get(repoPath)?.delete(serviceName);
+    if (processMap.get(repoPath)?.size === 0) processMap.delete(repoPath);
+    pids.forEach(pid => spawned?.delete(pid));
+    if (spawned?.size === 0) spawnedProcesses.delete(repoPath);
+    if (survivors.length > 0) logger.error(`Service '${serviceName}' of ${repoPath}: PIDs ${survivors.join(', ')} could not be terminated.`);
+    return true;
+}
 
 /**
- * Terminates a tracked process gracefully (SIGTERM).
+ * Terminates every service of a repo and every other detached process spawned for it
+ * (including ones that failed their startup check). Each process group is sent SIGTERM,
+ * escalated to SIGKILL after a grace period, and checked until it is gone.
  * @param repoPath The path associated with the process to terminate.
  * @param processMap The map holding the tracked processes.
  */
-export async function terminateTrackedProcess(repoPath: string, processMap: Map<string, ProcessInfo>): Promise<void> {
-    if (processMap.has(repoPath)) {
-        const processInfo = processMap.get(repoPath)!;
-        logger.log(`Attempting to terminate tracked process PID: ${processInfo.pid} (Command: "${processInfo.command}") for repo ${repoPath}...`);
-        try {
-            process.kill(processInfo.pid, 'SIGTERM');
-            logger.log(`Sent SIGTERM to PID ${processInfo.pid}.`);
-        } catch (killError: any) {
-            if (killError.code === 'ESRCH') {
-                logger.log(`Process PID ${processInfo.pid} not found (likely already stopped).`);
-            } else {
-                logger.error(`Error sending SIGTERM to process PID ${processInfo.pid}: ${killError.message} (Code: ${killError.code})`);
-            }
-        } finally {
-            processMap.delete(repoPath);
-            logger.log(`Removed PID ${processInfo.pid} from tracking for ${repoPath}.`);
-        }
-    } else {
+export async function terminateTrackedProcess(repoPath: string, processMap: TrackedProcesses): Promise<void> {
+    const services = listTrackedServices(repoPath, processMap);
+    const pids = new Set(spawnedProcesses.get(repoPath)?.keys() || []);
+    services.forEach(service => pids.add(service.pid));
+    if (pids.size === 0) {
         logger.log(`No tracked running process found for ${repoPath} to terminate.`);
+        return;
     }
+
+    logger.log(`Attempting to terminate PIDs ${Array.from(pids).join(', ')} for repo ${repoPath}${services.length ? ` (services: ${services.map(s => s.serviceName).join(', ')})` : ''}...`);
+    const survivors = await terminatePids(Array.from(pids));
+    processMap.delete(repoPath);
+    spawnedProcesses.delete(repoPath);
+    if (survivors.length > 0) {
+        logger.error(`Processes for ${repoPath} could not be terminated: ${survivors.join(', ')}`);
+    } else {
+        logger.log(`Removed PIDs ${Array.from(pids).join(', ')} from tracking for ${repoPath}.`);
+    }
+}
+
+/**
+ * Terminates the detached processes of a repo that are not a tracked service (e.g. ones that
+ * failed their startup check), leaving the tracked services running.
+ * @param repoPath The path associated with the processes.
+ */
+export async function terminateUntrackedProcesses(repoPath: string): Promise<void> {
+    const spawned = spawnedProcesses.get(repoPath);
+    const tracked = new Set(listTrackedServices(repoPath).map(service => service.pid));
+    const pids = Array.from(spawned?.keys() || []).filter(pid => !tracked.has(pid));
+    if (pids.length === 0) return;
+
+    logger.log(`Terminating untracked PIDs ${pids.join(', ')} of ${repoPath}...`);
+    const survivors = await terminatePids(pids);
+    pids.forEach(pid => spawned.delete(pid));
+    if (spawned.size === 0) spawnedProcesses.delete(repoPath);
+    if (survivors.length > 0) logger.error(`Untracked processes of ${repoPath} could not be terminated: ${survivors.join(', ')}`);
 }
 
 /**
@@ -37,8 +202,9 @@ export async function terminateTrackedProcess(repoPath: string, processMap: Map<
  * @param repoPath CWD for the command.
  * @param command The command executable.
  * @param args Command arguments.
- * @param isLongRunning If true, run detached and monitor initial output.
+ * @param isLongRunning If true, run detached and wait until it listens on a port, prints a ready pattern or the startup timeout passes.
  * @param timeoutOverride Optional timeout override (ms). Ignored for long-running.
+ * @param context Optional run event emitter, execution backend and startup detection options.
  * @returns A ToolResult object.
  */
 export async function executeCommand(
@@ -46,18 +212,37 @@ export async function executeCommand(
     command: string,
     args: string[],
     isLongRunning: boolean = false,
-    timeoutOverride?: number
+    timeoutOverride?: number,
+    context: CommandContext = {}
 ): Promise<Omit<ToolResult, 'finalOutcome'>> { // Exclude finalOutcome as this tool doesn't set it
+    const { events } = context;
+    const backend = context.backend || createLocalBackend();
+    const { execa } = await loadExeca();
     const commandStr = `${command} ${args.join(' ')}`;
-    logger.warn(`Executing command: ${commandStr} in ${repoPath} (isLongRunning: ${isLongRunning})`);
+    logger.warn(`Executing command: ${commandStr} in ${repoPath} (isLongRunning: ${isLongRunning}, backend: ${backend.name})`);
 
-    // Kill existing tracked process for this repo if starting a new long-running one
+    // Replace the previous process of the same service; other services keep running
+    const serviceName = context.serviceName || DEFAULT_SERVICE_NAME;
+    const config = context.config || DEFAULT_RUN_CONFIG;
+    const outputTail = config.maxToolResultLength / 2; // stdout and stderr share the tool result
     if (isLongRunning) {
-        await terminateTrackedProcess(repoPath, runningProcesses);
+        await terminateService(repoPath, serviceName);
     }
+    // Prepared after the previous process is gone, so the ports it held are free again
+    const prepared = await backend.prepare({ command, args, cwd: repoPath, repoPath, env: context.env || {}, longRunning: isLongRunning });
 
     if (isLongRunning) {
         // --- Handle Detached Long-Running Process ---
+        const startup = context.startup || {};
+        const startupTimeout = startup.timeout ?? config.serverStartTimeout;
+        const readyPatterns = (startup.readyPatterns || []).map(pattern => new RegExp(pattern, 'i'));
+        // Sockets opened inside a container are not visible in the host's /proc
+        const useSockets = startup.socketDetection !== false && backend.ownsHostSockets && await isProcfsAvailable();
+
+        const log = await openCommandLog(repoPath, commandStr);
+        // A pipe would break (EPIPE) once this process exits, taking a kept process down with it
+        const outputFd = context.outputToLog ? await log.handOff() : null;
+
         return new Promise((resolve) => {
             let stdoutData = '';
             let stderrData = '';
@@ -65,151 +250,269 @@ export async function executeCommand(
             let exitCode: number | null = null;
             let pid: number | undefined;
             let notes = '';
-            let detectedPort: string | null = null;
             let timer: NodeJS.Timeout | null = null;
+            let pollTimer: NodeJS.Timeout | null = null;
+            let polling = false;
+            let patternMatched = false;
             let resultSent = false;
             let childProcess: any = null;
+            let stopFollowing: (() => Promise<void>) | null = null;
+            const recentOutput: string[] = []; // Kept on ProcessInfo for tracked processes
+            const collectStdout = createLineCollector(recentOutput);
+            const collectStderr = createLineCollector(recentOutput);
+            const startedAt = Date.now();
 
 
+            // The 'exit' listener stays attached so later exits are still reported and untracked.
+            // Output listeners stay attached too: the command log records the process for as long as it runs.
             const cleanupListeners = () => {
                 if (!childProcess) return;
-                childProcess.stdout?.removeAllListeners('data');
-                childProcess.stderr?.removeAllListeners('data');
-                childProcess.removeAllListeners('exit');
                 childProcess.removeAllListeners('error');
-                if(pid) logger.log(`[PID ${pid}] Removed output/exit listeners.`);
+                if(pid) logger.log(`[PID ${pid}] Removed error listener.`);
             };
 
+            const stopWatching = () => {
+                if (timer) clearTimeout(timer);
+                if (pollTimer) clearInterval(pollTimer);
+            };
+
+            // Startup succeeded: track the process and report it (at most once)
+            const reportStarted = (reason: string, port: string | null) => {
+                if (resultSent || processExited) return;
+                resultSent = true;
+                stopWatching();
+                const elapsed = ((Date.now() - startedAt) / 1000).toFixed(1);
+                notes = `Detached process (PID: ${pid}, service '${serviceName}') started after ${elapsed}s: ${reason}. ${port ? `Detected port: ${port}.` : ''} Process continues in background.`;
+                logger.log(`PID ${pid} considered started (${reason}).`);
+                trackService(repoPath, serviceName, {
+                    pid: pid!,
+                    command: commandStr,
+                    serviceName,
+                    executable: command,
+                    args: args,
+                    startedAt: new Date().toISOString(),
+                    output: recentOutput,
+                });
+                logger.log(`Added PID ${pid} to tracking for ${repoPath} as service '${serviceName}'.`);
+                resolve({
+                    success: true,
+                    pid: pid,
+                    serviceName,
+                    stdout: stdoutData.slice(-outputTail),
+                    stderr: stderrData.slice(-outputTail),
+                    notes: notes,
+                    detectedPort: port,
+                    isRunningDetached: true,
+                    logId: log.id
+                });
+                cleanupListeners();
+            };
+
+            // Ports the process tree actually listens on (lowest first), or [] if unknown
+            const findBoundPorts = async (): Promise<number[]> => {
+                if (!useSockets || !pid) return [];
+                try {
+                    const sockets = await getListeningSocketsForProcessTree(pid, false);
+                    return Array.from(new Set(sockets.map(socket => socket.port))).sort((a, b) => a - b);
+                } catch {
+                    return [];
+                }
+            };
+
+            const checkSockets = async () => {
+                if (polling || resultSent) return;
+                polling = true;
+                try {
+                    const ports = await findBoundPorts();
+                    if (ports.length > 0) reportStarted(`process tree is listening on TCP port(s) ${ports.join(', ')}`, String(ports[0]));
+                } finally {
+                    polling = false;
+                }
+            };
+
+            const checkReadyPatterns = async () => {
+                if (patternMatched || resultSent || readyPatterns.length === 0) return;
+                const pattern = readyPatterns.find(regex => regex.test(stdoutData) || regex.test(stderrData));
+                if (!pattern) return;
+                patternMatched = true;
+                // Prefer the real bound port; fall back to a port mentioned in the output
+                const ports = await findBoundPorts();
+                const port = ports.length > 0 ? String(ports[0]) : findPortInOutput(`${stdoutData}\n${stderrData}`);
+                reportStarted(`output matched readiness pattern /${pattern.source}/`, port);
+            };
+
+            // Capture initial output (for the startup check) and recent output (for tracked processes)
+            const handleOutput = (text: string, isStderr: boolean) => {
+                if (!resultSent) {
+                    if (isStderr) stderrData += text;
+                    else stdoutData += text;
+                }
+                (isStderr ? collectStderr : collectStdout)(text);
+                void checkReadyPatterns();
+            };
+
+            // execa hands a file descriptor straight to spawn(), though its types do not list one
+            const outputTarget = (outputFd ?? 'pipe') as unknown as ExecaOptions['stdout'];
+
             try {
-                childProcess = execa(command, args, {
-                    cwd: repoPath,
+                childProcess = execa(prepared.command, prepared.args, {
+                    cwd: prepared.cwd,
                     detached: true,
-                    stdio: ['ignore', 'pipe', 'pipe'], // Detached requires specific stdio
+                    // Detached requires specific stdio
+                    stdin: 'ignore',
+                    stdout: outputTarget,
+                    stderr: outputTarget,
                     reject: false, // Handle errors manually
-                    env: { ...process.env, FORCE_COLOR: '0' }, // Prevent ANSI color codes
+                    env: prepared.env,
+                    extendEnv: prepared.extendEnv,
                     windowsHide: true, // Hide window on Windows
                 });
 
+                if (outputFd !== null) {
+                    // The child has its own copy; both streams land in the log, so all output counts as stdout
+                    closeSync(outputFd);
+                    stopFollowing = followCommandLog(log.path, text => handleOutput(text, false));
+                }
+
                 pid = childProcess.pid;
                 if (pid === undefined) {
                     throw new Error("Failed to get PID for detached process.");
                 }
                 logger.log(`Started detached process with PID: ${pid}`);
+                if (!spawnedProcesses.has(repoPath)) spawnedProcesses.set(repoPath, new Map());
+                spawnedProcesses.get(repoPath)!.set(pid, serviceName);
+                events?.emit('process:spawn', { repoPath, serviceName, pid, command: commandStr });
 
-                childProcess.on('exit', (code, signal) => {
+                childProcess.on('exit', async (code, signal) => {
                     processExited = true;
                     exitCode = code;
+                    await stopFollowing?.(); // Output written just before exiting
+                    events?.emit('process:exit', { repoPath, serviceName, pid, exitCode: code, signal });
+                    processEvents.emit('exit', { repoPath, serviceName, pid, exitCode: code, signal, afterStartup: resultSent } as DetachedProcessExit);
                     if (!resultSent) {
                         logger.warn(`Detached process PID ${pid} exited early with code ${code}, signal ${signal}.`);
                         notes = `Detached process exited prematurely (code: ${code}, signal: ${signal}). Startup failed.`;
-                        resolve({ success: false, pid: pid, exitCode: exitCode, stdout: stdoutData.slice(-MAX_TOOL_RESULT_LENGTH / 2), stderr: stderrData.slice(-MAX_TOOL_RESULT_LENGTH / 2), notes: notes, isRunningDetached: true });
+                        resolve({ success: false, pid: pid, exitCode: exitCode, stdout: stdoutData.slice(-outputTail), stderr: stderrData.slice(-outputTail), notes: notes, isRunningDetached: true, logId: log.id });
                         resultSent = true;
-                        if (timer) clearTimeout(timer);
+                        stopWatching();
                         cleanupListeners();
                     } else {
                         logger.log(`[PID ${pid}] Detached process exited (code ${code}, signal ${signal}) after initial check.`);
                         // Process exited after we assumed it was running, remove from tracking
-                        if (runningProcesses.has(repoPath) && runningProcesses.get(repoPath)?.pid === pid) {
-                            logger.warn(`[PID ${pid}] Removing process from tracking as it exited after being marked as running.`);
-                            runningProcesses.delete(repoPath);
+                        if (getTrackedService(repoPath, serviceName)?.pid === pid) {
+                            logger.warn(`[PID ${pid}] Removing service '${serviceName}' from tracking as it exited after being marked as running.`);
                         }
                     }
                     // If the process exits cleanly or otherwise, we need to ensure it's not tracked anymore
-                    if(runningProcesses.has(repoPath) && runningProcesses.get(repoPath)?.pid === pid) {
-                        runningProcesses.delete(repoPath);
-                    }
+                    untrackService(repoPath, serviceName, pid);
+                    releaseSpawnedProcess(repoPath, pid);
                 });
 
+                // All output has been read once stdio closes
+                childProcess.on('close', () => log.close());
+
                 childProcess.on('error', (err) => {
                     if (!resultSent) {
                         processExited = true; // Treat error as exit
                         logger.error(`Error spawning/running detached process PID ${pid}: ${err.message}`);
                         notes = `Error running detached command: ${err.message}`;
-                        resolve({ success: false, pid: pid, error: err.message, stdout: stdoutData.slice(-MAX_TOOL_RESULT_LENGTH / 2), stderr: stderrData.slice(-MAX_TOOL_RESULT_LENGTH / 2), notes: notes, isRunningDetached: true });
+                        resolve({ success: false, pid: pid, error: err.message, stdout: stdoutData.slice(-outputTail), stderr: stderrData.slice(-outputTail), notes: notes, isRunningDetached: true, logId: log.id });
                         resultSent = true;
-                        if (timer) clearTimeout(timer);
+                        stopWatching();
                         cleanupListeners();
                     }
                     // Ensure not tracked on error
-                    if(pid && runningProcesses.has(repoPath) && runningProcesses.get(repoPath)?.pid === pid) {
-                        runningProcesses.delete(repoPath);
+                    if (pid) {
+                        untrackService(repoPath, serviceName, pid);
+                        releaseSpawnedProcess(repoPath, pid);
                     }
                 });
 
-                // Capture initial output
-                childProcess.stdout?.on('data', (data) => { stdoutData += data.toString(); });
-                childProcess.stderr?.on('data', (data) => { stderrData += data.toString(); });
+                childProcess.stdout?.on('data', (data) => {
+                    const text = data.toString();
+                    log.write(text);
+                    handleOutput(text, false);
+                });
+                childProcess.stderr?.on('data', (data) => {
+                    const text = data.toString();
+                    log.write(text);
+                    handleOutput(text, true);
+                });
 
                 // Detach the child process properly so it continues running after the parent exits
                 childProcess.unref(); // Allows parent to exit independently
 
-                // Check output after timeout
+                // Resolve as soon as the process tree opens a listening socket
+                if (useSockets) {
+                    pollTimer = setInterval(() => void checkSockets(), startup.pollInterval ?? STARTUP_POLL_INTERVAL);
+                }
+
+                // No socket or ready pattern within the timeout: fall back to guessing from the output
                 timer = setTimeout(() => {
                     if (processExited || resultSent) return; // Already handled
+                    if (pollTimer) clearInterval(pollTimer);
 
-                    logger.log(`${SERVER_START_TIMEOUT / 1000}s check timeout reached for PID ${pid}. Analyzing captured output...`);
+                    logger.log(`${startupTimeout / 1000}s startup timeout reached for PID ${pid}. Analyzing captured output...`);
                     const combinedOutput = `stdout:\n${stdoutData}\n\nstderr:\n${stderrData}`;
-
-                    const portRegex = /(?:localhost|127\.0\.0\.1|0\.0\.0\.0):(\d{4,5})|on port (\d{4,5})/i;
-                    const successRegex = /compiled successfully|ready on|listening on|server started|development server is running at|started successfully/i;
-                    const portMatch = combinedOutput.match(portRegex);
-                    const successMatch = combinedOutput.match(successRegex);
-                    detectedPort = portMatch ? (portMatch[1] || portMatch[2]) : null;
-                    let successDetected = false;
+                    const successMatch = combinedOutput.match(OUTPUT_SUCCESS_REGEX);
+                    const detectedPort = findPortInOutput(combinedOutput);
 
                     if (successMatch || detectedPort) {
-                        successDetected = true;
-                        notes = `Detached process (PID: ${pid}) started. Initial output within ${SERVER_START_TIMEOUT / 1000}s suggests success. ${successMatch ? `Found pattern: "${successMatch[0]}"` : ''} ${detectedPort ? `Detected port: ${detectedPort}.` : ''} Process continues in background.`;
-                        logger.log(`Success pattern or port found for PID ${pid}. Assuming successful start.`);
-                        // Track the process
-                        runningProcesses.set(repoPath, { pid: pid!, command: commandStr });
-                        logger.log(`Added PID ${pid} to tracking for ${repoPath}.`);
-                    } else {
-                        successDetected = false;
-                        notes = `Detached process (PID: ${pid}) started, but no clear success message or port found in initial output within ${SERVER_START_TIMEOUT / 1000}s. Assuming startup failed or is unrecognized. Process may still be running but is NOT tracked.`;
-                        logger.warn(`No success patterns found for PID ${pid}. Assuming failed start. Process will NOT be tracked.`);
-                        // DO NOT add to runningProcesses map if startup looks failed
+                        reportStarted(`no listening socket seen within ${startupTimeout / 1000}s, but initial output suggests success${successMatch ? ` (found pattern: "${successMatch[0]}")` : ''}`, detectedPort);
+                        return;
                     }
 
+                    notes = `Detached process (PID: ${pid}) started, but ${useSockets ? 'it opened no listening socket and ' : ''}no clear success message or port was found in its output within ${startupTimeout / 1000}s. Assuming startup failed or is unrecognized. Process may still be running; it is not treated as the app but will be terminated at cleanup.`;
+                    logger.warn(`No startup signal found for PID ${pid}. Assuming failed start. Process is not treated as the app.`);
+                    // DO NOT add to runningProcesses map if startup looks failed
                     resolve({
-                        success: successDetected,
+                        success: false,
                         pid: pid,
-                        stdout: stdoutData.slice(-MAX_TOOL_RESULT_LENGTH / 2),
-                        stderr: stderrData.slice(-MAX_TOOL_RESULT_LENGTH / 2),
+                        stdout: stdoutData.slice(-outputTail),
+                        stderr: stderrData.slice(-outputTail),
                         notes: notes,
-                        detectedPort: detectedPort,
-                        isRunningDetached: true
+                        detectedPort: null,
+                        isRunningDetached: true,
+                        logId: log.id
                     });
                     resultSent = true;
-                    cleanupListeners(); // Stop listening to output after the check
+                    cleanupListeners(); // Output keeps going to the command log until the process exits
 
-                }, SERVER_START_TIMEOUT);
+                }, startupTimeout);
 
             } catch (error: any) {
                 // Handle errors during setup (e.g., execa call fails immediately)
                 logger.error(`Failed to initiate detached process: ${error.message}`);
-                resolve({ success: false, error: `Failed to start detached process: ${error.message}`, isRunningDetached: true });
+                if (outputFd !== null && !stopFollowing) closeSync(outputFd);
+                log.write(`Failed to start: ${error.message}\n`);
+                log.close();
+                resolve({ success: false, error: `Failed to start detached process: ${error.message}`, isRunningDetached: true, logId: log.id });
                 resultSent = true; // Ensure promise resolves
-                if (timer) clearTimeout(timer); // Clean up timer if it was set
+                stopWatching(); // Clean up timers if they were set
                 cleanupListeners(); // Attempt cleanup just in case
             }
         }); // End Promise
 
     } else {
         // --- Handle Normal (Non-Detached) Command ---
-        const timeout = timeoutOverride || DEFAULT_COMMAND_TIMEOUT;
+        const timeout = timeoutOverride || config.commandTimeout;
         logger.log(`Using timeout: ${timeout}ms`);
+        const log = await openCommandLog(repoPath, commandStr);
         try {
-            const result = await execa(command, args, {
-                cwd: repoPath,
+            const result = await execa(prepared.command, prepared.args, {
+                cwd: prepared.cwd,
                 timeout: timeout,
                 reject: false, // Don't throw on non-zero exit code
                 stripFinalNewline: true,
-                env: { ...process.env, FORCE_COLOR: '0' },
+                all: true, // Interleaved stdout/stderr for the command log
+                env: prepared.env,
+                extendEnv: prepared.extendEnv,
             });
 
-            const truncatedStdout = result.stdout.slice(-MAX_TOOL_RESULT_LENGTH / 2);
-            const truncatedStderr = result.stderr.slice(-MAX_TOOL_RESULT_LENGTH / 2);
+            log.write(`${result.all || ''}\n[exit code: ${result.exitCode}${result.timedOut ? ', timed out' : ''}]\n`);
+            log.close();
+            const truncatedStdout = result.stdout.slice(-outputTail);
+            const truncatedStderr = result.stderr.slice(-outputTail);
             logger.log(`runCommand Result: Exit Code=${result.exitCode}, TimedOut=${result.timedOut}, Signal=${result.signal || 'none'}`);
             logger.logPreview(`runCommand Stdout`, truncatedStdout);
             logger.logPreview(`runCommand Stderr`, truncatedStderr);
@@ -220,13 +523,18 @@ export async function executeCommand(
             if (success) { notes = "Command completed successfully."; }
             else if (result.timedOut) { notes = `Command timed out after ${timeout}ms.`; success = false; } // Ensure success is false on timeout
             else { notes = `Command failed with exit code ${result.exitCode}. Check stderr.`; }
+            if (truncatedStdout.length < result.stdout.length || truncatedStderr.length < result.stderr.length) {
+                notes += ` Output was truncated to its end; use 'readCommandLog' with logId '${log.id}' to page through or grep all of it.`;
+            }
 
-            return { success: success, stdout: truncatedStdout, stderr: truncatedStderr, exitCode: result.exitCode, timedOut: result.timedOut ?? false, signal: result.signal, notes: notes, isRunningDetached: false };
+            return { success: success, stdout: truncatedStdout, stderr: truncatedStderr, exitCode: result.exitCode, timedOut: result.timedOut ?? false, signal: result.signal, notes: notes, isRunningDetached: false, logId: log.id };
 
         } catch (error: any) {
             // Catch errors from execa itself (e.g., command not found)
             logger.error(`Execa failed for non-detached command: ${error.message}`);
-            return { success: false, error: `Command execution failed: ${error.message}`, stderr: error.stderr || '', stdout: error.stdout || '', isRunningDetached: false, notes: `Command execution failed: ${error.message}` };
+            log.write(`Command execution failed: ${error.message}\n`);
+            log.close();
+            return { success: false, error: `Command execution failed: ${error.message}`, stderr: error.stderr || '', stdout: error.stdout || '', isRunningDetached: false, notes: `Command execution failed: ${error.message}`, logId: log.id };
         }
     }
 }
@@ -235,12 +543,13 @@ export async function executeCommand(
  * Cleans up ALL tracked processes. Useful for application shutdown.
  */
 export async function cleanupAllTrackedProcesses(): Promise<void> {
-    logger.warn(`Attempting to clean up ALL ${runningProcesses.size} tracked processes...`);
-    const cleanupPromises = Array.from(runningProcesses.keys()).map(repoPath =>
+    const repoPaths = new Set([...Array.from(runningProcesses.keys()), ...Array.from(spawnedProcesses.keys())]);
+    logger.warn(`Attempting to clean up processes of ALL ${repoPaths.size} repos...`);
+    const cleanupPromises = Array.from(repoPaths).map(repoPath =>
         terminateTrackedProcess(repoPath, runningProcesses)
     );
     await Promise.allSettled(cleanupPromises); // Wait for all termination attempts
-    if (runningProcesses.size > 0) {
+    if (runningProcesses.size > 0 || spawnedProcesses.size > 0) {
         logger.error(`Failed to terminate all processes. ${runningProcesses.size} remain tracked.`);
     } else {
         logger.log(`All tracked processes terminated successfully.`);
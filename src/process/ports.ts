@@ -0,0 +1,49 @@
+import net from 'net';
+import { PortRange } from '../config';
+
+// Port ranges reserved for a run (RunOptions.ports), so concurrent runs do not start their apps
+// on the same ports.
+
+/**
+ * Throws if a port range is malformed.
+ * @param range The range to check.
+ */
+export function validatePortRange(range: PortRange): void {
+    const valid = (port: number) => Number.isInteger(port) && port >= 1 && port <= 65535;
+    if (!range || !valid(range.start) || !valid(range.end) || range.start > range.end) {
+        throw new Error(`Invalid port range ${JSON.stringify(range)}: expected integers 1-65535 with start <= end.`);
+    }
+}
+
+/**
+ * Every port of a range, e.g. to publish them from a container.
+ * @param range The range.
+ * @returns The ports in ascending order.
+ */
+export function portsInRange(range: PortRange): number[] {
+    const ports: number[] = [];
+    for (let port = range.start; port <= range.end; port++) ports.push(port);
+    return ports;
+}
+
+/**
+ * Whether a port can be bound on the host right now.
+ * @param port The port.
+ * @param host The address to try. Default: 127.0.0.1
+ */
+export function isPortAvailable(port: number, host: string = '127.0.0.1'): Promise<boolean> {
+    return new Promise(resolve => {
+        const server = net.createServer();
+        server.once('error', () => resolve(false));
+        server.listen(port, host, () => server.close(() => resolve(true)));
+    });
+}
+
+/**
+ * Environment variables announcing a run's port range to its commands.
+ * @param range The range, or undefined if the run has none.
+ * @returns PORT (first port of the range); empty without a range.
+ */
+export function portEnvironment(range: PortRange | undefined): Record<string, string> {
+    return range ? { PORT: String(range.start) } : {};
+}
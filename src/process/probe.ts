@@ -0,0 +1,115 @@
+import * as logger from '../utils/logger';
+import {
+    PROBE_MAX_ATTEMPTS,
+    PROBE_INITIAL_DELAY,
+    PROBE_BACKOFF_FACTOR,
+    PROBE_REQUEST_TIMEOUT,
+    PROBE_ACCEPTED_STATUS,
+    ReadinessProbeOptions,
+    ProbeResult
+} from '../config';
+import { isProcfsAvailable, getListeningSocketsForProcessTree } from './sockets';
+
+function extractTitle(body: string): string | null {
+    const match = body.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    return match ? match[1].trim().replace(/\s+/g, ' ') : null;
+}
+
+function portOf(url: URL): number {
+    if (url.port) return parseInt(url.port, 10);
+    return url.protocol === 'https:' ? 443 : 80;
+}
+
+/**
+ * Checks whether the port of `url` is bound by the process tree of `pid`.
+ * Returns null when ownership cannot be determined (no tracked PID, or no /proc).
+ */
+async function checkSocketOwnership(url: URL, pids: number[]): Promise<boolean | null> {
+    if (pids.length === 0 || !(await isProcfsAvailable())) return null;
+    const port = portOf(url);
+    for (const pid of pids) {
+        const sockets = await getListeningSocketsForProcessTree(pid);
+        if (sockets.some(socket => socket.port === port)) return true;
+    }
+    return false;
+}
+
+/**
+ * Probes a URL with HTTP GET, retrying with exponential backoff until it answers
+ * with an accepted status (and the expected body text, if configured).
+ * @param deploymentUrl The URL the model claims the app is served on.
+ * @param options Probe settings; unspecified fields use the PROBE_* defaults.
+ * @param trackedPids PIDs of the tracked background processes; one of their trees must own the listening socket.
+ * @returns The result of the last attempt.
+ */
+export async function probeUrl(
+    deploymentUrl: string,
+    options: ReadinessProbeOptions = {},
+    trackedPids: number[] = []
+): Promise<ProbeResult> {
+    const maxAttempts = options.maxAttempts ?? PROBE_MAX_ATTEMPTS;
+    const accepted = options.acceptedStatus ?? PROBE_ACCEPTED_STATUS;
+    const requestTimeout = options.requestTimeout ?? PROBE_REQUEST_TIMEOUT;
+    let delay = options.initialDelay ?? PROBE_INITIAL_DELAY;
+
+    const result: ProbeResult = {
+        url: deploymentUrl, ok: false, statusCode: null, latencyMs: null, title: null,
+        headers: {}, attempts: 0, socketOwnedByProcess: null,
+    };
+
+    let url: URL;
+    try {
+        url = new URL(deploymentUrl);
+    } catch {
+        result.error = `Invalid URL: ${deploymentUrl}`;
+        return result;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        result.error = `Unsupported protocol '${url.protocol}'. Only http(s) URLs can be probed.`;
+        return result;
+    }
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        result.attempts = attempt;
+        const started = Date.now();
+        try {
+            const response = await fetch(url, { method: 'GET', redirect: 'follow', signal: AbortSignal.timeout(requestTimeout) });
+            const body = await response.text();
+            result.latencyMs = Date.now() - started;
+            result.statusCode = response.status;
+            result.title = extractTitle(body);
+            result.headers = {};
+            response.headers.forEach((value, key) => { result.headers[key] = value; });
+
+            if (response.status < accepted.min || response.status > accepted.max) {
+                result.error = `HTTP ${response.status} is outside the accepted range ${accepted.min}-${accepted.max}.`;
+            } else if (options.expectedBodyText && !body.includes(options.expectedBodyText)) {
+                result.error = `Response body does not contain the expected text "${options.expectedBodyText}".`;
+            } else {
+                result.error = undefined;
+                result.ok = true;
+                break;
+            }
+        } catch (fetchError: any) {
+            result.latencyMs = null;
+            result.error = `Request failed: ${fetchError.cause?.code || fetchError.message}`;
+        }
+
+        logger.warn(`Probe attempt ${attempt}/${maxAttempts} for ${deploymentUrl} failed: ${result.error}`);
+        if (attempt < maxAttempts) {
+            await new Promise(resolve => setTimeout(resolve, delay));
+            delay *= options.backoffFactor ?? PROBE_BACKOFF_FACTOR;
+        }
+    }
+
+    if (result.ok && options.verifySocketOwnership !== false) {
+        result.socketOwnedByProcess = await checkSocketOwnership(url, trackedPids);
+        if (result.socketOwnedByProcess === false) {
+            result.ok = false;
+            result.error = `Port ${portOf(url)} is not bound by the tracked process tree (PID ${trackedPids.join(', ')}). Something else is serving ${deploymentUrl}.`;
+        }
+    }
+
+    logger.log(`Probe of ${deploymentUrl}: ${result.ok ? 'OK' : 'FAILED'} (status: ${result.statusCode ?? 'n/a'}, latency: ${result.latencyMs ?? 'n/a'}ms, attempts: ${result.attempts})`);
+    return result;
+}
@@ -0,0 +1,75 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import * as logger from '../utils/logger';
+import { PROCESS_REGISTRY_PATH } from '../config';
+
+/**
+ * A background process left running by an earlier invocation (e.g. `repo-runner run --keep`).
+ */
+export interface RegisteredProcess {
+    pid: number;
+    command: string;
+    serviceName?: string; // Missing in entries written before services existed
+    repoPath: string;
+    repoUrl: string;
+    commitHash: string;
+    url: string | null;
+    startedAt: string;
+}
+
+/**
+ * Checks whether a PID refers to a live process (signal 0 performs only the permission/existence check).
+ */
+export function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM'; // Exists, but owned by someone else
+    }
+}
+
+async function readRegistry(registryPath: string): Promise<RegisteredProcess[]> {
+    try {
+        const raw = await fs.readFile(registryPath, 'utf-8');
+        const entries = JSON.parse(raw);
+        return Array.isArray(entries) ? entries : [];
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+            logger.warn(`Could not read process registry ${registryPath}: ${error.message}`);
+        }
+        return [];
+    }
+}
+
+async function writeRegistry(registryPath: string, entries: RegisteredProcess[]): Promise<void> {
+    await fs.mkdir(path.dirname(registryPath), { recursive: true });
+    // Write atomically so concurrent invocations never see a half-written file
+    const tempPath = `${registryPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(entries, null, 2));
+    await fs.rename(tempPath, registryPath);
+}
+
+/**
+ * Lists registered processes that are still alive, pruning dead entries from the registry.
+ */
+export async function listRegisteredProcesses(registryPath = PROCESS_REGISTRY_PATH): Promise<RegisteredProcess[]> {
+    const entries = await readRegistry(registryPath);
+    const alive = entries.filter(entry => isProcessAlive(entry.pid));
+    if (alive.length !== entries.length) {
+        await writeRegistry(registryPath, alive);
+    }
+    return alive;
+}
+
+export async function registerProcess(entry: RegisteredProcess, registryPath = PROCESS_REGISTRY_PATH): Promise<void> {
+    const entries = (await readRegistry(registryPath)).filter(existing => existing.pid !== entry.pid);
+    entries.push(entry);
+    await writeRegistry(registryPath, entries);
+    logger.log(`Registered PID ${entry.pid} (${entry.command}) in ${registryPath}.`);
+}
+
+export async function unregisterProcess(pid: number, registryPath = PROCESS_REGISTRY_PATH): Promise<void> {
+    const entries = await readRegistry(registryPath);
+    await writeRegistry(registryPath, entries.filter(entry => entry.pid !== pid));
+}
@@ -0,0 +1,151 @@
+import * as logger from '../utils/logger';
+import { executeCommand, runningProcesses, terminateTrackedProcess, processEvents, DetachedProcessExit, CommandContext, getTrackedService, listTrackedServices } from './manager';
+import { cleanupRepo } from '../utils/fsUtils';
+import { SESSION_WATCHDOG_MAX_RESTARTS, SESSION_RESTART_DELAY, ProcessInfo, WatchdogOptions } from '../config';
+
+export type SessionState = 'running' | 'restarting' | 'crashed' | 'stopped';
+
+export interface SessionStatus {
+    state: SessionState;
+    repoPath: string;
+    serviceName: string; // Service the session watches and restarts
+    url: string | null;
+    pid: number | null;
+    command: string | null;
+    startedAt: string | null;
+    restarts: number;
+    lastExit: { exitCode: number | null; signal: string | null; at: string } | null;
+    error?: string;
+}
+
+/**
+ * Handle to an app left running after a successful analysis.
+ */
+export interface RunSession {
+    readonly repoPath: string;
+    readonly url: string | null;
+    status(): SessionStatus;
+    /** Returns the last `lines` lines of combined stdout/stderr of the current process. */
+    tailLogs(lines?: number): string[];
+    /** Restarts the tracked command. Resolves with the new status. */
+    restart(): Promise<SessionStatus>;
+    /** Stops the app (all of its services, and the watchdog). With `removeRepo`, also deletes the checkout. */
+    stop(options?: { removeRepo?: boolean }): Promise<void>;
+    /** Sessions serialize as their status, so FinalOutcome stays JSON-friendly. */
+    toJSON(): SessionStatus;
+}
+
+/**
+ * Creates a session for a service currently tracked for `repoPath`.
+ * @param repoPath The repository the process belongs to.
+ * @param url The verified URL of the app.
+ * @param watchdog Optional crash handling: report crashes and/or restart automatically.
+ * @param context Run event emitter (notified of crashes and restarts), execution backend used for restarts,
+ *                and the service to watch (default: the first tracked service).
+ * @throws Error if no process is tracked for `repoPath` or it cannot be restarted.
+ */
+export function createRunSession(
+    repoPath: string,
+    url: string | null,
+    watchdog: WatchdogOptions = {},
+    context: CommandContext = {}
+): RunSession {
+    const { events } = context;
+    const serviceName = context.serviceName || listTrackedServices(repoPath)[0]?.serviceName;
+    let processInfo: ProcessInfo | undefined = serviceName ? getTrackedService(repoPath, serviceName) : undefined;
+    if (!processInfo) {
+        throw new Error(`No tracked process for ${repoPath}; cannot create a session.`);
+    }
+    if (!processInfo.executable || !processInfo.args) {
+        throw new Error(`Tracked process PID ${processInfo.pid} has no recorded command; cannot create a session.`);
+    }
+    const executable = processInfo.executable;
+    const args = processInfo.args;
+    const maxRestarts = watchdog.maxRestarts ?? SESSION_WATCHDOG_MAX_RESTARTS;
+
+    const status: SessionStatus = {
+        state: 'running',
+        repoPath,
+        serviceName,
+        url,
+        pid: processInfo.pid,
+        command: processInfo.command,
+        startedAt: processInfo.startedAt || null,
+        restarts: 0,
+        lastExit: null,
+    };
+    let watchdogRestarts = 0;
+
+    const restart = async (): Promise<SessionStatus> => {
+        status.state = 'restarting';
+        logger.log(`[Session] Restarting '${status.command}' for ${repoPath}...`);
+        // executeCommand terminates the service's current process before starting the new one
+        const result = await executeCommand(repoPath, executable, args, true, undefined, { ...context, serviceName });
+        const restarted = getTrackedService(repoPath, serviceName);
+        if (!result.success || !restarted) {
+            status.state = 'crashed';
+            status.pid = null;
+            status.error = result.error || result.notes || 'Restart failed.';
+            logger.error(`[Session] Restart failed for ${repoPath}: ${status.error}`);
+            return { ...status };
+        }
+        processInfo = restarted;
+        status.state = 'running';
+        status.pid = restarted.pid;
+        status.startedAt = restarted.startedAt || new Date().toISOString();
+        status.restarts++;
+        status.error = undefined;
+        events?.emit('session:restart', { repoPath, pid: restarted.pid, restarts: status.restarts });
+        logger.log(`[Session] Restarted with PID ${restarted.pid}.`);
+        return { ...status };
+    };
+
+    const onProcessExit = (exit: DetachedProcessExit) => {
+        // Only unexpected exits of our current process count as crashes
+        if (exit.repoPath !== repoPath || exit.pid !== status.pid || status.state !== 'running') return;
+        status.state = 'crashed';
+        status.pid = null;
+        status.lastExit = { exitCode: exit.exitCode, signal: exit.signal, at: new Date().toISOString() };
+        logger.warn(`[Session] App for ${repoPath} exited unexpectedly (code: ${exit.exitCode}, signal: ${exit.signal}).`);
+        events?.emit('session:crash', { repoPath, pid: exit.pid, exitCode: exit.exitCode, signal: exit.signal });
+        watchdog.onCrash?.({ ...status });
+
+        if (watchdog.restartOnCrash && watchdogRestarts < maxRestarts) {
+            watchdogRestarts++;
+            logger.log(`[Session] Watchdog restart ${watchdogRestarts}/${maxRestarts} in ${SESSION_RESTART_DELAY / 1000}s...`);
+            setTimeout(() => {
+                if (status.state === 'crashed') {
+                    restart().catch(error => logger.error(`[Session] Watchdog restart failed: ${error.message}`));
+                }
+            }, SESSION_RESTART_DELAY);
+        } else if (watchdog.restartOnCrash) {
+            logger.error(`[Session] Watchdog gave up after ${maxRestarts} restarts.`);
+        }
+    };
+    if (watchdog.enabled !== false) {
+        processEvents.on('exit', onProcessExit);
+    }
+
+    return {
+        repoPath,
+        url,
+        status: () => ({ ...status }),
+        tailLogs(lines = 50) {
+            const output = processInfo?.output || [];
+            return output.slice(-lines);
+        },
+        restart,
+        async stop(options = {}) {
+            status.state = 'stopped';
+            processEvents.off('exit', onProcessExit);
+            if (options.removeRepo) {
+                await cleanupRepo(repoPath, runningProcesses);
+            } else {
+                await terminateTrackedProcess(repoPath, runningProcesses);
+            }
+            status.pid = null;
+            logger.log(`[Session] Stopped session for ${repoPath}.`);
+        },
+        toJSON: () => ({ ...status }),
+    };
+}
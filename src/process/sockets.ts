@@ -0,0 +1,131 @@
+import { promises as fs } from 'fs';
+import * as logger from '../utils/logger';
+
+// Linux-only helpers that inspect /proc to map listening TCP sockets to processes.
+
+export interface ListeningSocket {
+    address: string;
+    port: number;
+    inode: string;
+}
+
+const TCP_LISTEN_STATE = '0A';
+
+/**
+ * Whether /proc-based socket inspection is available on this host.
+ */
+export async function isProcfsAvailable(): Promise<boolean> {
+    if (process.platform !== 'linux') return false;
+    try {
+        await fs.access('/proc/net/tcp');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function decodeAddress(hex: string): string {
+    if (hex.length === 8) {
+        // IPv4, little-endian
+        return [3, 2, 1, 0].map(i => parseInt(hex.substr(i * 2, 2), 16)).join('.');
+    }
+    // IPv6: four little-endian 32-bit words; only the common cases matter for display
+    if (/^0+$/.test(hex)) return '::';
+    if (hex === '00000000000000000000000001000000') return '::1';
+    return hex;
+}
+
+/**
+ * Lists all TCP sockets in LISTEN state from /proc/net/tcp and /proc/net/tcp6.
+ */
+export async function getListeningSockets(): Promise<ListeningSocket[]> {
+    const sockets: ListeningSocket[] = [];
+    for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+        let content: string;
+        try {
+            content = await fs.readFile(file, 'utf-8');
+        } catch {
+            continue; // tcp6 may be missing when IPv6 is disabled
+        }
+        for (const line of content.split('\n').slice(1)) {
+            const fields = line.trim().split(/\s+/);
+            if (fields.length < 10 || fields[3] !== TCP_LISTEN_STATE) continue;
+            const [addressHex, portHex] = fields[1].split(':');
+            sockets.push({ address: decodeAddress(addressHex), port: parseInt(portHex, 16), inode: fields[9] });
+        }
+    }
+    return sockets;
+}
+
+/**
+ * Returns the PID and all of its descendants, based on the parent PIDs in /proc/<pid>/stat.
+ */
+export async function getProcessTree(rootPid: number): Promise<number[]> {
+    const children = new Map<number, number[]>();
+    let entries: string[];
+    try {
+        entries = await fs.readdir('/proc');
+    } catch {
+        return [rootPid];
+    }
+
+    await Promise.all(entries.filter(name => /^\d+$/.test(name)).map(async name => {
+        try {
+            const stat = await fs.readFile(`/proc/${name}/stat`, 'utf-8');
+            // The command name may contain spaces/parens, so parse from the last ')'
+            const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+            const ppid = parseInt(fields[1], 10);
+            if (!children.has(ppid)) children.set(ppid, []);
+            children.get(ppid)!.push(parseInt(name, 10));
+        } catch {
+            // Process exited while scanning
+        }
+    }));
+
+    const tree: number[] = [];
+    const queue = [rootPid];
+    while (queue.length > 0) {
+        const pid = queue.shift()!;
+        tree.push(pid);
+        queue.push(...(children.get(pid) || []));
+    }
+    return tree;
+}
+
+/**
+ * Collects the socket inodes held open by the given PIDs.
+ */
+async function getSocketInodes(pids: number[]): Promise<Set<string>> {
+    const inodes = new Set<string>();
+    await Promise.all(pids.map(async pid => {
+        let fds: string[];
+        try {
+            fds = await fs.readdir(`/proc/${pid}/fd`);
+        } catch {
+            return; // Exited or not permitted
+        }
+        await Promise.all(fds.map(async fd => {
+            try {
+                const target = await fs.readlink(`/proc/${pid}/fd/${fd}`);
+                const match = target.match(/^socket:\[(\d+)\]$/);
+                if (match) inodes.add(match[1]);
+            } catch {
+                // fd closed while scanning
+            }
+        }));
+    }));
+    return inodes;
+}
+
+/**
+ * Returns the listening sockets owned by the process tree rooted at `rootPid`.
+ * @param rootPid Root of the process tree.
+ * @param verbose Log the result (disable for frequent polling).
+ */
+export async function getListeningSocketsForProcessTree(rootPid: number, verbose: boolean = true): Promise<ListeningSocket[]> {
+    const pids = await getProcessTree(rootPid);
+    const [sockets, inodes] = await Promise.all([getListeningSockets(), getSocketInodes(pids)]);
+    const owned = sockets.filter(socket => inodes.has(socket.inode));
+    if (verbose) logger.log(`Process tree of PID ${rootPid} (${pids.length} processes) listens on: ${owned.map(s => s.port).join(', ') || 'nothing'}`);
+    return owned;
+}
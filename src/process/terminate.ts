@@ -0,0 +1,127 @@
+import { promises as fs } from 'fs';
+import * as logger from '../utils/logger';
+import { PROCESS_KILL_GRACE_PERIOD, PROCESS_KILL_POLL_INTERVAL } from '../config';
+import { getProcessTree, isProcfsAvailable } from './sockets';
+
+export interface TerminationResult {
+    pid: number;
+    escalated: boolean; // SIGKILL was needed
+    survivors: number[]; // PIDs still alive after SIGKILL (should be empty)
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends a signal to a single PID, ignoring processes that are already gone.
+ */
+function sendSignal(pid: number, signal: NodeJS.Signals): void {
+    try {
+        process.kill(pid, signal);
+    } catch (error: any) {
+        if (error.code !== 'ESRCH') logger.warn(`Could not send ${signal} to ${pid < 0 ? `process group ${-pid}` : `PID ${pid}`}: ${error.message}`);
+    }
+}
+
+/**
+ * Lists the live (non-zombie) members of a process group via /proc.
+ */
+async function getProcessGroupMembers(pgid: number): Promise<number[]> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir('/proc');
+    } catch {
+        return [];
+    }
+    const members: number[] = [];
+    await Promise.all(entries.filter(name => /^\d+$/.test(name)).map(async name => {
+        try {
+            const stat = await fs.readFile(`/proc/${name}/stat`, 'utf-8');
+            // Fields after the command name: state ppid pgrp ...
+            const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ');
+            if (fields[0] !== 'Z' && parseInt(fields[2], 10) === pgid) members.push(parseInt(name, 10));
+        } catch {
+            // Process exited while scanning
+        }
+    }));
+    return members;
+}
+
+/**
+ * Whether a process group still has members. Its ID cannot be reused for a new process until it is empty.
+ */
+export function isProcessGroupAlive(pgid: number): boolean {
+    try {
+        process.kill(-pgid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM';
+    }
+}
+
+/**
+ * Whether a PID is alive and not a zombie.
+ */
+async function isAlive(pid: number, procfs: boolean): Promise<boolean> {
+    if (procfs) {
+        try {
+            const stat = await fs.readFile(`/proc/${pid}/stat`, 'utf-8');
+            return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+        } catch {
+            return false;
+        }
+    }
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error: any) {
+        return error.code === 'EPERM';
+    }
+}
+
+/**
+ * Terminates a detached process, its process group and any descendants that left the group:
+ * SIGTERM first, SIGKILL for whatever is still alive after the grace period, then a final check.
+ * @param pid PID of a detached process (which leads its own process group).
+ * @param gracePeriod ms to wait after SIGTERM before escalating.
+ * @returns Whether escalation was needed and which PIDs (if any) survived.
+ */
+export async function terminateProcessTree(pid: number, gracePeriod: number = PROCESS_KILL_GRACE_PERIOD): Promise<TerminationResult> {
+    const procfs = await isProcfsAvailable();
+    // Collect descendants up front: once the leader dies they are re-parented and harder to find
+    const targets = new Set(procfs ? await getProcessTree(pid) : [pid]);
+    if (procfs) (await getProcessGroupMembers(pid)).forEach(member => targets.add(member));
+
+    const alive = async (): Promise<number[]> => {
+        if (procfs) (await getProcessGroupMembers(pid)).forEach(member => targets.add(member));
+        const states = await Promise.all(Array.from(targets).map(async target => (await isAlive(target, procfs)) ? target : null));
+        return states.filter((target): target is number => target !== null);
+    };
+    const signalAll = (signal: NodeJS.Signals, pids: number[]) => {
+        sendSignal(-pid, signal); // The whole process group
+        pids.forEach(target => sendSignal(target, signal)); // Descendants that started their own group/session
+    };
+    const waitForExit = async (timeout: number): Promise<number[]> => {
+        const deadline = Date.now() + timeout;
+        let remaining = await alive();
+        while (remaining.length > 0 && Date.now() < deadline) {
+            await sleep(PROCESS_KILL_POLL_INTERVAL);
+            remaining = await alive();
+        }
+        return remaining;
+    };
+
+    signalAll('SIGTERM', Array.from(targets));
+    let remaining = await waitForExit(gracePeriod);
+    const escalated = remaining.length > 0;
+    if (escalated) {
+        logger.warn(`PIDs ${remaining.join(', ')} survived SIGTERM for ${gracePeriod / 1000}s. Sending SIGKILL.`);
+        signalAll('SIGKILL', remaining);
+        remaining = await waitForExit(gracePeriod);
+    }
+    if (remaining.length > 0) {
+        logger.error(`Could not terminate PIDs ${remaining.join(', ')} (process tree of ${pid}).`);
+    } else {
+        logger.log(`Process tree of PID ${pid} terminated (${targets.size} process(es)${escalated ? ', SIGKILL needed' : ''}).`);
+    }
+    return { pid, escalated, survivors: remaining };
+}
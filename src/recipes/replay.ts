@@ -0,0 +1,124 @@
+import * as logger from '../utils/logger';
+import { DEFAULT_SERVICE_NAME, FinalOutcome, RECIPE_VERSION, Recipe, RecipeStep, RecipeTool, ToolResult } from '../config';
+import { AgentToolCall } from '../llm/providers/types';
+import { ToolRunner } from '../detect/executePlan';
+import { normalizeRepoUrl } from './store';
+
+const RECIPE_TOOLS: RecipeTool[] = ['runCommand', 'createFile', 'editFile', 'patchFile', 'stopService', 'restartService', 'setEnv'];
+
+export interface RecipeReplayResult {
+    outcome: Omit<FinalOutcome, 'repoPath'> | null; // Set when every step and markRunning succeeded
+    replayedSteps: number;
+    failedStep: number | null; // 1-based; steps.length + 1 means markRunning failed
+    failure: { step: string; result: ToolResult } | null;
+}
+
+export interface RecipeRecorder {
+    record(toolCall: AgentToolCall, result: ToolResult): void;
+    /** Builds a recipe from the recorded calls, or null if the run never reached a successful markRunning. */
+    build(repoUrl: string, commitHash: string): Recipe | null;
+}
+
+/**
+ * Short human-readable description of a recipe step, used in logs and prompts.
+ */
+export function describeRecipeStep(step: RecipeStep): string {
+    if (step.tool === 'runCommand') {
+        const args: string[] = step.arguments.args || [];
+        const service = step.arguments.serviceName ? ` [service '${step.arguments.serviceName}']` : '';
+        return `runCommand: ${[step.arguments.command, ...args].join(' ')}${step.arguments.isLongRunning ? ` (long-running)${service}` : ''}`;
+    }
+    if (step.tool === 'stopService' || step.tool === 'restartService') {
+        return `${step.tool}: ${step.arguments.serviceName}`;
+    }
+    if (step.tool === 'setEnv') {
+        return `setEnv: ${step.arguments.name}${step.arguments.value === undefined || step.arguments.value === null ? ' (unset)' : ''}`;
+    }
+    return `${step.tool}: ${step.arguments.filePath}`;
+}
+
+/**
+ * Collects the successful state-changing tool calls of a run, in order.
+ * Failed calls are left out: a replay should not repeat the agent's dead ends.
+ */
+export function createRecipeRecorder(): RecipeRecorder {
+    const steps: RecipeStep[] = [];
+    let markRunning: Recipe['markRunning'] | null = null;
+
+    return {
+        record(toolCall, result) {
+            if (!result.success) return;
+            let args: Record<string, any>;
+            try {
+                args = JSON.parse(toolCall.arguments || '{}');
+            } catch {
+                return;
+            }
+            if (toolCall.name === 'markRunning' && result.finalOutcome?.status === 'success') {
+                markRunning = { deploymentUrl: args.deploymentUrl, serviceName: args.serviceName, additionalUrls: args.additionalUrls, notes: args.notes };
+            } else if ((RECIPE_TOOLS as string[]).includes(toolCall.name)) {
+                steps.push({ tool: toolCall.name as RecipeTool, arguments: args });
+            }
+        },
+        build(repoUrl, commitHash) {
+            if (!markRunning) return null;
+            // The normalized URL never contains embedded credentials
+            return { version: RECIPE_VERSION, repoUrl: normalizeRepoUrl(repoUrl), commitHash, updatedAt: new Date().toISOString(), steps: [...steps], markRunning };
+        },
+    };
+}
+
+/**
+ * Replays a recipe step by step, stopping at the first step that fails.
+ * The steps run through the regular tool path, so policy, sandboxing and events apply.
+ * @param recipe The recipe to replay.
+ * @param runTool Executes one tool call in the current run.
+ * @returns How far the replay got, and the outcome if the app was verified as running.
+ */
+export async function replayRecipe(recipe: Recipe, runTool: ToolRunner): Promise<RecipeReplayResult> {
+    const detectedPorts = new Map<string, string>(); // serviceName -> port bound during this replay
+
+    for (let i = 0; i < recipe.steps.length; i++) {
+        const step = recipe.steps[i];
+        logger.log(`Recipe step ${i + 1}/${recipe.steps.length}: ${describeRecipeStep(step)}`);
+        const result = await runTool({ id: `recipe-${i + 1}`, name: step.tool, arguments: JSON.stringify(step.arguments) });
+        if (!result.success) {
+            logger.warn(`Recipe step ${i + 1} failed; handing over to the LLM.`);
+            return { outcome: null, replayedSteps: i, failedStep: i + 1, failure: { step: describeRecipeStep(step), result } };
+        }
+        if (result.serviceName && result.detectedPort) {
+            detectedPorts.set(result.serviceName, result.detectedPort);
+        }
+    }
+
+    // The app may bind a different port this time (e.g. a busy default port): follow what was detected
+    const withDetectedPort = (recordedUrl: string, serviceName: string | undefined): string => {
+        const port = detectedPorts.get(serviceName || DEFAULT_SERVICE_NAME);
+        if (!port) return recordedUrl;
+        try {
+            const url = new URL(recordedUrl);
+            if (url.port === port) return recordedUrl;
+            url.port = port;
+            return url.toString();
+        } catch {
+            return recordedUrl; // Keep the recorded URL
+        }
+    };
+    const deploymentUrl = withDetectedPort(recipe.markRunning.deploymentUrl, recipe.markRunning.serviceName);
+    const markArgs = {
+        ...recipe.markRunning,
+        deploymentUrl,
+        additionalUrls: recipe.markRunning.additionalUrls?.map(entry => ({ ...entry, url: withDetectedPort(entry.url, entry.serviceName) })),
+    };
+    const result = await runTool({ id: `recipe-${recipe.steps.length + 1}`, name: 'markRunning', arguments: JSON.stringify(markArgs) });
+    if (!result.finalOutcome) {
+        logger.warn(`Recipe replay did not produce a reachable app; handing over to the LLM.`);
+        return {
+            outcome: null,
+            replayedSteps: recipe.steps.length,
+            failedStep: recipe.steps.length + 1,
+            failure: { step: `markRunning: ${deploymentUrl}`, result },
+        };
+    }
+    return { outcome: result.finalOutcome, replayedSteps: recipe.steps.length, failedStep: null, failure: null };
+}
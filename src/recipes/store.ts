@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import * as logger from '../utils/logger';
+import { RECIPE_REPO_FILE, RECIPE_STORE_DIR, RECIPE_VERSION, Recipe } from '../config';
+
+export interface LoadedRecipe {
+    recipe: Recipe;
+    source: string; // File the recipe was read from
+}
+
+/**
+ * Normalizes a repository URL so that equivalent spellings share one recipe
+ * (credentials, trailing slashes, `.git` suffix and case are ignored).
+ * @param repoUrl The repository URL as passed to the run.
+ * @returns The normalized URL.
+ */
+export function normalizeRepoUrl(repoUrl: string): string {
+    return repoUrl
+        .trim()
+        .replace(/^(\w+:\/\/)[^@/]+@/, '$1') // Strip embedded credentials
+        .replace(/\/+$/, '')
+        .replace(/\.git$/, '')
+        .toLowerCase();
+}
+
+/**
+ * Returns the recipe store file for a repository.
+ * @param repoUrl The repository URL.
+ * @param storeDir Directory of the recipe store.
+ * @returns Absolute path of the recipe file (which may not exist yet).
+ */
+export function recipeStorePath(repoUrl: string, storeDir: string = RECIPE_STORE_DIR): string {
+    const normalized = normalizeRepoUrl(repoUrl);
+    const readable = normalized.replace(/^\w+:\/\//, '').replace(/[^a-z0-9._-]+/g, '_').slice(-80);
+    const hash = crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 8);
+    return path.join(storeDir, `${readable}-${hash}.json`);
+}
+
+async function readRecipeFile(file: string): Promise<Recipe | null> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(file, 'utf-8');
+    } catch (error: any) {
+        if (error.code !== 'ENOENT') logger.warn(`Could not read recipe ${file}: ${error.message}`);
+        return null;
+    }
+    try {
+        const recipe = JSON.parse(raw) as Recipe;
+        if (recipe.version !== RECIPE_VERSION) {
+            logger.warn(`Ignoring recipe ${file}: version ${recipe.version} is not supported (expected ${RECIPE_VERSION}).`);
+            return null;
+        }
+        if (!Array.isArray(recipe.steps) || !recipe.markRunning?.deploymentUrl) {
+            logger.warn(`Ignoring recipe ${file}: missing steps or markRunning.`);
+            return null;
+        }
+        return recipe;
+    } catch (error: any) {
+        logger.warn(`Ignoring recipe ${file}: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * Finds the recipe for a repository. A recipe committed to the repository (`.reporunner.json`)
+ * takes precedence over the local recipe store.
+ * @param repoUrl The repository URL.
+ * @param repoPath The checked-out repository.
+ * @param storeDir Directory of the recipe store.
+ * @returns The recipe and its source file, or null if none exists.
+ */
+export async function loadRecipe(repoUrl: string, repoPath: string, storeDir?: string): Promise<LoadedRecipe | null> {
+    for (const file of [path.join(repoPath, RECIPE_REPO_FILE), recipeStorePath(repoUrl, storeDir)]) {
+        const recipe = await readRecipeFile(file);
+        if (recipe) {
+            logger.log(`Loaded recipe with ${recipe.steps.length} step(s) from ${file}`);
+            return { recipe, source: file };
+        }
+    }
+    return null;
+}
+
+/**
+ * Writes a recipe to the local recipe store, replacing any earlier recipe for the repository.
+ * @param recipe The recipe to save.
+ * @param storeDir Directory of the recipe store.
+ * @returns The file the recipe was written to.
+ */
+export async function saveRecipe(recipe: Recipe, storeDir?: string): Promise<string> {
+    const file = recipeStorePath(recipe.repoUrl, storeDir);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(recipe, null, 2));
+    await fs.rename(tempFile, file);
+    logger.log(`Saved recipe with ${recipe.steps.length} step(s) to ${file}`);
+    return file;
+}
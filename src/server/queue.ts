@@ -0,0 +1,68 @@
+/**
+ * Minimal in-memory FIFO job queue with bounded concurrency.
+ */
+export interface JobQueue {
+    /** Queues a task; resolves/rejects with the task's result once it has run. */
+    enqueue<T>(id: string, task: () => Promise<T>): Promise<T>;
+    /** Removes a job that has not started yet. Returns false if it is unknown or already running. */
+    cancel(id: string): boolean;
+    readonly pendingCount: number;
+    readonly activeCount: number;
+}
+
+interface QueuedJob {
+    id: string;
+    start: () => void;
+    reject: (error: Error) => void;
+}
+
+export function createJobQueue(concurrency: number): JobQueue {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`Queue concurrency must be a positive integer, got ${concurrency}.`);
+    }
+    const pending: QueuedJob[] = [];
+    let active = 0;
+
+    const drain = () => {
+        while (active < concurrency && pending.length > 0) {
+            const job = pending.shift()!;
+            active++;
+            job.start();
+        }
+    };
+
+    return {
+        enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+            return new Promise<T>((resolve, reject) => {
+                pending.push({
+                    id,
+                    reject,
+                    start: () => {
+                        const done = () => {
+                            active--;
+                            drain();
+                        };
+                        task().then(
+                            result => { done(); resolve(result); },
+                            error => { done(); reject(error); }
+                        );
+                    },
+                });
+                drain();
+            });
+        },
+        cancel(id: string): boolean {
+            const index = pending.findIndex(job => job.id === id);
+            if (index === -1) return false;
+            const [job] = pending.splice(index, 1);
+            job.reject(new Error(`Job ${id} was cancelled before it started.`));
+            return true;
+        },
+        get pendingCount() {
+            return pending.length;
+        },
+        get activeCount() {
+            return active;
+        },
+    };
+}
@@ -0,0 +1,314 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { cloneAndRun } from '../core/orchestrator';
+import { RunEventEmitter, RunEvent } from '../core/events';
+import { runningProcesses, cleanupAllTrackedProcesses } from '../process/manager';
+import { cleanupRepo } from '../utils/fsUtils';
+import * as logger from '../utils/logger';
+import { createJobQueue } from './queue';
+import {
+    SERVICE_DEFAULT_PORT,
+    SERVICE_DEFAULT_HOST,
+    SERVICE_MAX_CONCURRENT_RUNS,
+    SERVICE_MAX_BODY_SIZE,
+    SERVICE_RUN_RETENTION,
+    SERVICE_MAX_FINISHED_RUNS,
+    FinalOutcome,
+    RunOptions
+} from '../config';
+
+export type RunStatus = 'queued' | 'running' | 'completed' | 'cancelled';
+
+interface RunRecord {
+    id: string;
+    status: RunStatus;
+    options: RunOptions;
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    outcome: FinalOutcome | null;
+    events: RunEvent[]; // Full history, replayed to late SSE subscribers
+    emitter: RunEventEmitter;
+    abortController: AbortController;
+    completion: Promise<void> | null;
+    cleanedUp: boolean; // Processes and checkout torn down (DELETE or eviction)
+    evictionTimer: NodeJS.Timeout | null;
+}
+
+export interface RunServiceOptions {
+    port?: number;
+    host?: string;
+    concurrency?: number;
+    /** Defaults applied to every submitted run (e.g. API keys from the service environment). */
+    defaults?: Partial<RunOptions>;
+}
+
+export interface RunService {
+    server: http.Server;
+    /** Stops accepting requests, cancels active runs and terminates all tracked processes. */
+    close(): Promise<void>;
+}
+
+// Fields a client may set through POST /runs; everything else is controlled by the service.
+// The sandbox, command policy and run configuration are the operator's safety settings.
+const ACCEPTED_RUN_FIELDS: (keyof RunOptions)[] = ['repoUrl', 'commitHash', 'openaiApiKey', 'githubToken', 'llm', 'maxTurns', 'readiness', 'detection', 'startup', 'context', 'budget', 'prices', 'env', 'secrets'];
+
+class HttpError extends Error {
+    constructor(public readonly statusCode: number, message: string) {
+        super(message);
+    }
+}
+
+function copyRunField<K extends keyof RunOptions>(target: Partial<RunOptions>, source: Partial<RunOptions>, field: K): void {
+    if (source[field] !== undefined) target[field] = source[field];
+}
+
+function sendJson(res: ServerResponse, statusCode: number, body: unknown): void {
+    res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<any> {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > SERVICE_MAX_BODY_SIZE) throw new HttpError(413, "Request body too large.");
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}');
+    } catch {
+        throw new HttpError(400, "Request body must be valid JSON.");
+    }
+}
+
+/**
+ * Public view of a run; credentials in the options are never echoed back.
+ */
+function toRunView(run: RunRecord) {
+    const { openaiApiKey, githubToken, llm, secrets, ...safeOptions } = run.options;
+    return {
+        id: run.id,
+        status: run.status,
+        // Secret values are never echoed; their names are
+        options: { ...safeOptions, llm: llm ? { ...llm, apiKey: undefined } : undefined, secrets: secrets ? Object.keys(secrets) : undefined },
+        createdAt: run.createdAt,
+        startedAt: run.startedAt,
+        finishedAt: run.finishedAt,
+        outcome: run.outcome,
+        eventCount: run.events.length,
+    };
+}
+
+function writeSseEvent(res: ServerResponse, index: number, event: RunEvent): void {
+    res.write(`id: ${index}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Starts the HTTP service:
+ *   POST   /runs             queue a run (body: RunOptions fields)
+ *   GET    /runs             list runs
+ *   GET    /runs/:id         status and FinalOutcome
+ *   GET    /runs/:id/events  Server-Sent Events of the run's event log
+ *   DELETE /runs/:id         cancel the run and clean up its processes and checkout
+ * Finished runs are evicted, with their processes and checkout, after SERVICE_RUN_RETENTION or
+ * once more than SERVICE_MAX_FINISHED_RUNS have finished.
+ */
+export async function startRunService(serviceOptions: RunServiceOptions = {}): Promise<RunService> {
+    const port = serviceOptions.port ?? SERVICE_DEFAULT_PORT;
+    const host = serviceOptions.host ?? SERVICE_DEFAULT_HOST;
+    const queue = createJobQueue(serviceOptions.concurrency ?? SERVICE_MAX_CONCURRENT_RUNS);
+    const runs = new Map<string, RunRecord>();
+    const eventStreams = new Set<ServerResponse>(); // Open SSE responses, ended on shutdown
+
+    const isFinished = (run: RunRecord) => run.status === 'completed' || run.status === 'cancelled';
+
+    // Tears down whatever the run left behind (background process, checkout), once
+    const cleanupRun = async (run: RunRecord) => {
+        if (run.cleanedUp || !run.outcome || run.outcome.repoPath === 'unknown') return;
+        run.cleanedUp = true;
+        await cleanupRepo(run.outcome.repoPath, runningProcesses);
+        delete run.outcome.logDir; // Deleted with the checkout
+    };
+
+    const evictRun = async (run: RunRecord) => {
+        if (!runs.delete(run.id)) return;
+        clearTimeout(run.evictionTimer);
+        await cleanupRun(run);
+        logger.log(`[Service] Run ${run.id} evicted.`);
+    };
+
+    const evictExcessRuns = async () => {
+        const finished = Array.from(runs.values()).filter(isFinished); // Oldest first
+        const excess = finished.slice(0, Math.max(0, finished.length - SERVICE_MAX_FINISHED_RUNS));
+        await Promise.all(excess.map(evictRun));
+    };
+
+    const executeRun = async (run: RunRecord): Promise<void> => {
+        run.status = 'running';
+        run.startedAt = new Date().toISOString();
+        logger.log(`[Service] Run ${run.id} started (${run.options.repoUrl}#${run.options.commitHash}).`);
+        const outcome = await cloneAndRun({ ...run.options, events: run.emitter, signal: run.abortController.signal });
+        run.outcome = outcome;
+        run.finishedAt = new Date().toISOString();
+        if (run.status === 'running') run.status = 'completed';
+        logger.log(`[Service] Run ${run.id} finished with status '${outcome.status}'.`);
+    };
+
+    const createRun = async (req: IncomingMessage, res: ServerResponse) => {
+        const body: Partial<RunOptions> = await readJsonBody(req);
+        const options: Partial<RunOptions> = { ...serviceOptions.defaults };
+        for (const field of ACCEPTED_RUN_FIELDS) copyRunField(options, body, field);
+        if (typeof options.repoUrl !== 'string' || !options.repoUrl) throw new HttpError(400, "'repoUrl' is required.");
+        if (typeof options.commitHash !== 'string' || !options.commitHash) throw new HttpError(400, "'commitHash' is required.");
+        // The service's key (or the SDKs' fallback to its environment) must never reach an endpoint the client chose
+        if (body.llm?.baseURL !== undefined && !body.llm.apiKey) {
+            throw new HttpError(400, "'llm.apiKey' is required when 'llm.baseURL' is set.");
+        }
+
+        const run: RunRecord = {
+            id: randomUUID(),
+            status: 'queued',
+            options: options as RunOptions,
+            createdAt: new Date().toISOString(),
+            startedAt: null,
+            finishedAt: null,
+            outcome: null,
+            events: [],
+            emitter: new RunEventEmitter(),
+            abortController: new AbortController(),
+            completion: null,
+            cleanedUp: false,
+            evictionTimer: null,
+        };
+        run.emitter.on('event', event => run.events.push(event));
+        runs.set(run.id, run);
+
+        run.completion = queue.enqueue(run.id, () => executeRun(run)).catch(error => {
+            // Either cancelled while queued or an error that escaped cloneAndRun
+            const cancelled = run.status === 'cancelled';
+            if (!cancelled) {
+                logger.error(`[Service] Run ${run.id} failed: ${error.message}`);
+                run.status = 'completed';
+            }
+            run.outcome = run.outcome || { status: 'failure', failureReason: cancelled ? 'cancelled' : 'error', url: null, notes: error.message, repoPath: 'unknown' };
+            run.finishedAt = run.finishedAt || new Date().toISOString();
+            run.emitter.emit('outcome', run.outcome);
+        }).then(() => {
+            run.evictionTimer = setTimeout(() => void evictRun(run), SERVICE_RUN_RETENTION).unref();
+            return evictExcessRuns();
+        });
+
+        logger.log(`[Service] Run ${run.id} queued (${queue.pendingCount} pending, ${queue.activeCount} active).`);
+        sendJson(res, 202, toRunView(run));
+    };
+
+    const streamEvents = (run: RunRecord, req: IncomingMessage, res: ServerResponse) => {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        const lastEventId = Number(req.headers['last-event-id'] ?? -1);
+        run.events.forEach((event, index) => {
+            if (index > lastEventId) writeSseEvent(res, index, event);
+        });
+        if (isFinished(run)) {
+            res.end();
+            return;
+        }
+        const onEvent = (event: RunEvent) => {
+            // The history listener was registered first, so this event's index is already final
+            writeSseEvent(res, run.events.length - 1, event);
+            if (event.type === 'outcome') res.end();
+        };
+        run.emitter.on('event', onEvent);
+        eventStreams.add(res);
+        res.on('close', () => {
+            run.emitter.off('event', onEvent);
+            eventStreams.delete(res);
+        });
+    };
+
+    const cancelRun = async (run: RunRecord, res: ServerResponse) => {
+        // A finished run keeps its status; only what it left behind is cleaned up
+        const cancelling = !isFinished(run);
+        if (run.status === 'queued') {
+            run.status = 'cancelled';
+            queue.cancel(run.id);
+        } else if (run.status === 'running') {
+            run.status = 'cancelled';
+            run.abortController.abort();
+        }
+        await run.completion;
+        await cleanupRun(run);
+        run.finishedAt = run.finishedAt || new Date().toISOString();
+        logger.log(`[Service] Run ${run.id} ${cancelling ? 'cancelled and ' : ''}cleaned up.`);
+        sendJson(res, 200, toRunView(run));
+    };
+
+    const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+        const { pathname } = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+        const match = pathname.match(/^\/runs(?:\/([^/]+))?(\/events)?\/?$/);
+        if (!match) throw new HttpError(404, `Not found: ${pathname}`);
+        const [, runId, eventsSuffix] = match;
+
+        if (!runId) {
+            if (req.method === 'POST') return createRun(req, res);
+            if (req.method === 'GET') return sendJson(res, 200, Array.from(runs.values()).map(toRunView));
+            throw new HttpError(405, `Method ${req.method} not allowed on /runs.`);
+        }
+
+        const run = runs.get(runId);
+        if (!run) throw new HttpError(404, `Run ${runId} not found.`);
+
+        if (eventsSuffix) {
+            if (req.method !== 'GET') throw new HttpError(405, `Method ${req.method} not allowed on events.`);
+            return streamEvents(run, req, res);
+        }
+        if (req.method === 'GET') return sendJson(res, 200, toRunView(run));
+        if (req.method === 'DELETE') return cancelRun(run, res);
+        throw new HttpError(405, `Method ${req.method} not allowed on /runs/:id.`);
+    };
+
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res).catch((error: any) => {
+            const statusCode = error instanceof HttpError ? error.statusCode : 500;
+            if (statusCode === 500) logger.error(`[Service] Request failed: ${error.message}`, error);
+            if (!res.headersSent) sendJson(res, statusCode, { error: error.message });
+            else res.end();
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => resolve());
+    });
+    logger.log(`[Service] Listening on http://${host}:${port} (max ${serviceOptions.concurrency ?? SERVICE_MAX_CONCURRENT_RUNS} concurrent runs).`);
+
+    return {
+        server,
+        async close() {
+            logger.log(`[Service] Shutting down...`);
+            // Stops accepting connections; resolves once the open ones (including SSE streams) have ended
+            const closed = new Promise<void>(resolve => server.close(() => resolve()));
+            for (const run of runs.values()) {
+                if (run.status === 'queued') {
+                    run.status = 'cancelled';
+                    queue.cancel(run.id);
+                } else if (run.status === 'running') {
+                    run.status = 'cancelled';
+                    run.abortController.abort();
+                }
+            }
+            await Promise.all(Array.from(runs.values()).map(run => run.completion));
+            runs.forEach(run => clearTimeout(run.evictionTimer));
+            // Streams normally end with their run's outcome event; end any that are still open
+            eventStreams.forEach(res => res.end());
+            server.closeIdleConnections();
+            await closed;
+            await cleanupAllTrackedProcesses();
+        },
+    };
+}
@@ -0,0 +1,359 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+    DEFAULT_IGNORED_PATHS,
+    LIST_DIRECTORY_DEFAULT_DEPTH,
+    LIST_DIRECTORY_MAX_DEPTH,
+    LIST_DIRECTORY_MAX_ITEMS,
+    SEARCH_MAX_RESULTS,
+    SEARCH_MAX_FILE_SIZE,
+    SEARCH_MAX_FILES,
+    SEARCH_MAX_CONTEXT_LINES,
+} from '../config';
+import { resolveSecurePath } from './pathUtils';
+
+// Repository exploration for the model: .gitignore-aware listing and search.
+// Callers pass paths relative to the repository root; everything is resolved with resolveSecurePath.
+
+interface IgnoreRule {
+    regex: RegExp;
+    negate: boolean;
+    directoryOnly: boolean;
+}
+
+interface WalkEntry {
+    relativePath: string; // POSIX-style, relative to the repository root
+    name: string;
+    depth: number; // 0 for direct children of the start directory
+    isDirectory: boolean;
+    isSymlink: boolean;
+    size: number | null;
+}
+
+export interface ListDirectoryOptions {
+    depth?: number;
+    showSizes?: boolean;
+    includeIgnored?: boolean; // Also list .gitignored and dependency directories
+    ignored?: string[]; // Names skipped without a .gitignore rule. Default: DEFAULT_IGNORED_PATHS
+}
+
+export interface SearchFilesOptions {
+    pattern: string;
+    isRegex?: boolean; // Default: literal text
+    ignoreCase?: boolean;
+    glob?: string | string[]; // Only search files matching one of these globs (e.g. '*.ts', 'src/**/*.json')
+    path?: string; // Subdirectory to search in
+    contextLines?: number;
+    maxResults?: number;
+    includeIgnored?: boolean;
+    ignored?: string[]; // Default: DEFAULT_IGNORED_PATHS
+}
+
+export interface SearchFilesResult {
+    content: string; // grep-style `file:line: text`, context lines as `file-line- text`
+    matches: number; // Matches returned
+    filesSearched: number;
+    truncated: boolean; // More matches (or files) exist than were returned/searched
+}
+
+/**
+ * Converts a gitignore-style glob into a regex source (without anchors).
+ * Supports `*`, `**`, `?` and character classes.
+ */
+export function globToRegexSource(glob: string): string {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i++;
+                }
+            } else {
+                source += '[^/]*';
+            }
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[' && glob.indexOf(']', i + 1) > i) {
+            const end = glob.indexOf(']', i + 1);
+            source += glob.slice(i, end + 1).replace(/^\[!/, '[^');
+            i = end;
+        } else {
+            source += char.replace(/[.+^${}()|\\\]]/g, '\\$&');
+        }
+    }
+    return source;
+}
+
+/**
+ * Returns a matcher for a glob: globs without a slash match the file name at any depth,
+ * globs with a slash match the path from the repository root.
+ */
+function globMatcher(glob: string): (relativePath: string) => boolean {
+    const trimmed = glob.replace(/^\.?\//, '');
+    const regex = trimmed.includes('/')
+        ? new RegExp(`^${globToRegexSource(trimmed)}$`)
+        : new RegExp(`(?:^|/)${globToRegexSource(trimmed)}$`);
+    return relativePath => regex.test(relativePath);
+}
+
+function parseGitignore(content: string, baseDir: string): IgnoreRule[] {
+    const prefix = baseDir ? `${globToRegexSource(baseDir)}/` : '';
+    const rules: IgnoreRule[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        let line = rawLine.replace(/\s+$/, '');
+        if (!line || line.startsWith('#')) continue;
+        const negate = line.startsWith('!');
+        if (negate) line = line.slice(1);
+        const directoryOnly = line.endsWith('/');
+        if (directoryOnly) line = line.slice(0, -1);
+        if (!line) continue;
+        // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+        const anchored = line.includes('/');
+        line = line.replace(/^\//, '');
+        const source = anchored ? `^${prefix}${globToRegexSource(line)}$` : `^${prefix}(?:.*/)?${globToRegexSource(line)}$`;
+        rules.push({ regex: new RegExp(source), negate, directoryOnly });
+    }
+    return rules;
+}
+
+function isIgnored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+    let ignored = false;
+    for (const rule of rules) {
+        if (rule.directoryOnly && !isDirectory) continue;
+        if (rule.regex.test(relativePath)) ignored = !rule.negate; // Last matching rule wins
+    }
+    return ignored;
+}
+
+async function readGitignore(repoPath: string, relativeDir: string): Promise<IgnoreRule[]> {
+    try {
+        const content = await fs.readFile(path.join(repoPath, relativeDir, '.gitignore'), 'utf-8');
+        return parseGitignore(content, relativeDir);
+    } catch {
+        return [];
+    }
+}
+
+function toPosix(relativePath: string): string {
+    return relativePath.split(path.sep).join('/');
+}
+
+/**
+ * Walks a directory depth-first in name order, skipping .git always and ignored entries unless asked.
+ * @param onEntry Called for every entry; return false to stop the walk.
+ */
+async function walk(
+    repoPath: string,
+    startDir: string,
+    options: { maxDepth: number; includeIgnored: boolean; withSizes: boolean; ignored: string[] },
+    onEntry: (entry: WalkEntry) => boolean
+): Promise<void> {
+    // Rules of the start directory's ancestors apply too
+    let rules: IgnoreRule[] = [];
+    if (!options.includeIgnored) {
+        const parts = startDir ? startDir.split('/') : [];
+        for (let i = 0; i <= parts.length; i++) {
+            rules = rules.concat(await readGitignore(repoPath, parts.slice(0, i).join('/')));
+        }
+    }
+
+    let stopped = false;
+    const visit = async (relativeDir: string, depth: number, inheritedRules: IgnoreRule[]): Promise<void> => {
+        let dirents: import('fs').Dirent[];
+        try {
+            dirents = await fs.readdir(path.join(repoPath, relativeDir), { withFileTypes: true });
+        } catch {
+            return;
+        }
+        dirents.sort((a, b) => a.name.localeCompare(b.name));
+        const dirRules = depth === 0 || options.includeIgnored ? inheritedRules : inheritedRules.concat(await readGitignore(repoPath, relativeDir));
+
+        for (const dirent of dirents) {
+            if (stopped) return;
+            if (dirent.name === '.git') continue;
+            const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+            const isDirectory = dirent.isDirectory();
+            if (!options.includeIgnored && (options.ignored.includes(dirent.name) || isIgnored(relativePath, isDirectory, dirRules))) continue;
+
+            let size: number | null = null;
+            if (options.withSizes && dirent.isFile()) {
+                size = await fs.stat(path.join(repoPath, relativePath)).then(stat => stat.size, () => null);
+            }
+            if (!onEntry({ relativePath, name: dirent.name, depth, isDirectory, isSymlink: dirent.isSymbolicLink(), size })) {
+                stopped = true;
+                return;
+            }
+            if (isDirectory && depth + 1 < options.maxDepth) {
+                await visit(relativePath, depth + 1, dirRules);
+            }
+        }
+    };
+    await visit(startDir, 0, rules);
+}
+
+function resolveStartDir(repoPath: string, relativeDir: string | undefined): string {
+    const absolute = resolveSecurePath(repoPath, relativeDir || '.');
+    return toPosix(path.relative(repoPath, absolute));
+}
+
+function formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Lists a directory of the repository as an indented tree.
+ * @param repoPath The repository root.
+ * @param relativeDir Directory to list, relative to the root (default: the root).
+ * @param options Depth, sizes and whether ignored entries are included.
+ * @returns The tree, one entry per line, and whether the item limit cut it short.
+ * @throws Error for paths outside the repository or inside .git.
+ */
+export async function listDirectory(repoPath: string, relativeDir: string | undefined, options: ListDirectoryOptions = {}): Promise<{ content: string; truncated: boolean }> {
+    const startDir = resolveStartDir(repoPath, relativeDir);
+    const stat = await fs.stat(path.join(repoPath, startDir));
+    if (!stat.isDirectory()) throw new Error(`Not a directory: ${relativeDir}`);
+
+    const maxDepth = Math.min(Math.max(options.depth ?? LIST_DIRECTORY_DEFAULT_DEPTH, 1), LIST_DIRECTORY_MAX_DEPTH);
+    const lines: string[] = [];
+    let truncated = false;
+    await walk(repoPath, startDir, { maxDepth, includeIgnored: !!options.includeIgnored, withSizes: !!options.showSizes, ignored: options.ignored || DEFAULT_IGNORED_PATHS }, entry => {
+        if (lines.length >= LIST_DIRECTORY_MAX_ITEMS) {
+            truncated = true;
+            return false;
+        }
+        const indent = '  '.repeat(entry.depth);
+        if (entry.isDirectory) {
+            lines.push(`${indent}📁 ${entry.name}/`);
+        } else {
+            const size = options.showSizes && entry.size !== null ? ` (${formatSize(entry.size)})` : '';
+            lines.push(`${indent}${entry.isSymlink ? '🔗' : '📄'} ${entry.name}${size}`);
+        }
+        return true;
+    });
+    if (truncated) lines.push(`... (stopped after ${LIST_DIRECTORY_MAX_ITEMS} items; list a subdirectory or reduce depth)`);
+    return { content: lines.join('\n') || '[Empty directory]', truncated };
+}
+
+/**
+ * Searches file contents in the repository, like `grep -rn` with glob filters and context.
+ * Binary files, symlinks and files above SEARCH_MAX_FILE_SIZE are skipped.
+ * @param repoPath The repository root.
+ * @param options Pattern, filters and limits.
+ * @returns grep-style matches.
+ * @throws Error for an invalid regex or a path outside the repository.
+ */
+export async function searchFiles(repoPath: string, options: SearchFilesOptions): Promise<SearchFilesResult> {
+    if (!options.pattern) throw new Error("pattern is required.");
+    const flags = options.ignoreCase ? 'i' : '';
+    const regex = options.isRegex
+        ? new RegExp(options.pattern, flags)
+        : new RegExp(options.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), flags);
+    const globs = (Array.isArray(options.glob) ? options.glob : options.glob ? [options.glob] : []).map(globMatcher);
+    const contextLines = Math.min(Math.max(options.contextLines ?? 0, 0), SEARCH_MAX_CONTEXT_LINES);
+    const maxResults = Math.max(options.maxResults ?? SEARCH_MAX_RESULTS, 1);
+    const startDir = resolveStartDir(repoPath, options.path);
+
+    const files: string[] = [];
+    let truncated = false;
+    await walk(repoPath, startDir, { maxDepth: Infinity, includeIgnored: !!options.includeIgnored, withSizes: false, ignored: options.ignored || DEFAULT_IGNORED_PATHS }, entry => {
+        if (entry.isDirectory || entry.isSymlink) return true;
+        if (globs.length > 0 && !globs.some(matches => matches(entry.relativePath))) return true;
+        if (files.length >= SEARCH_MAX_FILES) {
+            truncated = true;
+            return false;
+        }
+        files.push(entry.relativePath);
+        return true;
+    });
+
+    const output: string[] = [];
+    let matches = 0;
+    for (const file of files) {
+        if (matches >= maxResults) {
+            truncated = true;
+            break;
+        }
+        const absolute = path.join(repoPath, file);
+        const stat = await fs.stat(absolute).catch(() => null);
+        if (!stat || stat.size > SEARCH_MAX_FILE_SIZE) continue;
+        const buffer = await fs.readFile(absolute).catch(() => null);
+        if (!buffer || buffer.subarray(0, 8000).includes(0)) continue; // Binary
+
+        const lines = buffer.toString('utf-8').split(/\r?\n/);
+        const matchIndexes: number[] = [];
+        for (let i = 0; i < lines.length; i++) {
+            if (!regex.test(lines[i])) continue;
+            if (matches + matchIndexes.length >= maxResults) {
+                truncated = true;
+                break;
+            }
+            matchIndexes.push(i);
+        }
+        if (matchIndexes.length === 0) continue;
+        matches += matchIndexes.length;
+
+        // Print matches with their context, merging overlapping ranges like grep
+        const isMatch = new Set(matchIndexes);
+        if (contextLines > 0 && output.length > 0) output.push('--');
+        let lastPrinted = -1;
+        for (const index of matchIndexes) {
+            const from = Math.max(index - contextLines, lastPrinted + 1);
+            const to = Math.min(index + contextLines, lines.length - 1);
+            if (contextLines > 0 && lastPrinted >= 0 && from > lastPrinted + 1) output.push('--');
+            for (let j = from; j <= to; j++) {
+                const separator = isMatch.has(j) ? ':' : '-';
+                output.push(`${file}${separator}${j + 1}${separator} ${lines[j]}`);
+            }
+            lastPrinted = Math.max(lastPrinted, to);
+        }
+    }
+
+    return { content: output.join('\n') || 'No matches.', matches, filesSearched: files.length, truncated };
+}
+
+/**
+ * Selects the part of a file to show the model: a 1-based inclusive line range, or
+ * MAX_FILE_CONTENT_LENGTH characters from a character offset.
+ * @param content The whole file.
+ * @param options Line range or character offset.
+ * @param maxLength Maximum characters returned.
+ * @returns The selected text, the file's line count and a note on how to continue reading.
+ */
+export function sliceFileContent(
+    content: string,
+    options: { startLine?: number; endLine?: number; offset?: number },
+    maxLength: number
+): { content: string; totalLines: number; nextOffset: number | null; message: string } {
+    const lines = content.split('\n');
+    const totalLines = lines.length;
+
+    if (options.startLine !== undefined || options.endLine !== undefined) {
+        const start = Math.max(options.startLine ?? 1, 1);
+        const end = Math.min(options.endLine ?? totalLines, totalLines);
+        if (start > totalLines) throw new Error(`startLine ${start} is past the end of the file (${totalLines} lines).`);
+        let selected = lines.slice(start - 1, end).join('\n');
+        let message = `Lines ${start}-${end} of ${totalLines}.`;
+        if (selected.length > maxLength) {
+            selected = selected.substring(0, maxLength);
+            const shownEnd = start + selected.split('\n').length - 1;
+            message = `Lines ${start}-${shownEnd} of ${totalLines} (range cut at ${maxLength} characters; continue with startLine ${shownEnd}).`;
+        }
+        return { content: selected, totalLines, nextOffset: null, message };
+    }
+
+    const offset = Math.max(options.offset ?? 0, 0);
+    if (offset > 0 && offset >= content.length) throw new Error(`offset ${offset} is past the end of the file (${content.length} characters).`);
+    const end = Math.min(offset + maxLength, content.length);
+    const nextOffset = end < content.length ? end : null;
+    const message = nextOffset === null && offset === 0
+        ? `Whole file (${content.length} characters, ${totalLines} lines).`
+        : `Characters ${offset}-${end} of ${content.length} (${totalLines} lines).${nextOffset !== null ? ` Continue with offset ${nextOffset}, or read a line range.` : ''}`;
+    return { content: content.substring(offset, end), totalLines, nextOffset, message };
+}
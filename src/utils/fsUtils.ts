@@ -1,19 +1,33 @@
 import { promises as fs } from 'fs';
 import path from 'path';
 import * as logger from './logger';
-import { MAX_DIR_LISTING_DEPTH, MAX_DIR_ITEMS } from '../config';
+import { MAX_DIR_LISTING_DEPTH, MAX_DIR_ITEMS, DEFAULT_IGNORED_PATHS } from '../config';
 import { terminateTrackedProcess } from '../process/manager'; // Import process termination logic
+import { removeCommandLogs } from '../process/logs';
+import { disposeRepoBackend } from '../process/backends';
+
+export interface DirectoryListingOptions {
+    maxDepth?: number; // Default: MAX_DIR_LISTING_DEPTH
+    maxItems?: number; // Default: MAX_DIR_ITEMS
+    ignored?: string[]; // Names to skip besides .git. Default: DEFAULT_IGNORED_PATHS
+}
 
 /**
  * Lists directory structure recursively up to a max depth and item count.
  */
-export async function listDirectoryStructure(
+export async function listDirectoryStructure(dirPath: string, options: DirectoryListingOptions = {}): Promise<string[]> {
+    const ignored = ['.git', ...(options.ignored || DEFAULT_IGNORED_PATHS)];
+    return listDirectoryLevel(dirPath, options.maxDepth ?? MAX_DIR_LISTING_DEPTH, 0, { count: 0 }, options.maxItems ?? MAX_DIR_ITEMS, ignored, dirPath);
+}
+
+async function listDirectoryLevel(
     dirPath: string,
-    maxDepth = MAX_DIR_LISTING_DEPTH,
-    currentDepth = 0,
-    itemCount = { count: 0 },
-    maxItems = MAX_DIR_ITEMS,
-    repoRoot = dirPath // Keep track of the root for relative paths
+    maxDepth: number,
+    currentDepth: number,
+    itemCount: { count: number },
+    maxItems: number,
+    ignored: string[],
+    repoRoot: string // Keep track of the root for relative paths
 ): Promise<string[]> {
     if (currentDepth > maxDepth || itemCount.count >= maxItems) {
         return [];
@@ -24,7 +38,7 @@ export async function listDirectoryStructure(
         for (const dirent of dirents) {
             if (itemCount.count >= maxItems) break;
             // Skip common ignored directories/files
-            if (['.git', 'node_modules', '.DS_Store', '.next', '.vercel'].includes(dirent.name)) {
+            if (ignored.includes(dirent.name)) {
                 continue;
             }
 
@@ -36,7 +50,7 @@ export async function listDirectoryStructure(
             if (dirent.isDirectory()) {
                 structure.push(`${prefix}📁 ${dirent.name}/`);
                 // Pass repoRoot down recursively
-                const subStructure = await listDirectoryStructure(entryPath, maxDepth, currentDepth + 1, itemCount, maxItems, repoRoot);
+                const subStructure = await listDirectoryLevel(entryPath, maxDepth, currentDepth + 1, itemCount, maxItems, ignored, repoRoot);
                 structure = structure.concat(subStructure);
             } else {
                 structure.push(`${prefix}📄 ${dirent.name}`);
@@ -51,7 +65,7 @@ export async function listDirectoryStructure(
 
 
 /**
- * Cleans up the repository directory, attempting to terminate any tracked processes first.
+ * Cleans up the repository directory and its command logs, attempting to terminate any tracked processes first.
  * @param repoPath Absolute path to the directory to delete.
  * @param runningProcesses A map containing tracked processes for potentially multiple repos.
  */
@@ -63,6 +77,8 @@ export async function cleanupRepo(repoPath: string, runningProcesses: Map<string
 
     // Attempt to terminate tracked process associated *specifically* with this repoPath
     await terminateTrackedProcess(repoPath, runningProcesses); // Use the dedicated function
+    await disposeRepoBackend(repoPath); // e.g. leftover containers
+    await removeCommandLogs(repoPath);
 
     logger.log(`Deleting repository directory: ${repoPath}`);
     try {
@@ -1,26 +1,38 @@
 import { AGENT_NAME, MAX_LOG_OUTPUT_LENGTH } from '../config';
+import { redact, redactValue } from './redact';
 
 const logPrefix = `[${AGENT_NAME}]`;
 
+// 'stderr' keeps stdout clean for machine-readable output (e.g. `repo-runner run --json`)
+export type LogTarget = 'stdout' | 'stderr' | 'silent';
+let logTarget: LogTarget = 'stdout';
+
+export function setLogTarget(target: LogTarget) {
+    logTarget = target;
+}
+
+// Every message and argument is redacted: registered secrets and token formats never reach the output
 export function log(message: string, ...args: any[]) {
-    console.log(`${logPrefix} ${message}`, ...args);
+    if (logTarget === 'silent') return;
+    (logTarget === 'stderr' ? console.error : console.log)(`${logPrefix} ${redact(message)}`, ...args.map(redactValue));
 }
 
 export function warn(message: string, ...args: any[]) {
-    console.warn(`${logPrefix} ${message}`, ...args);
+    if (logTarget === 'silent') return;
+    console.warn(`${logPrefix} ${redact(message)}`, ...args.map(redactValue));
 }
 
 export function error(message: string, ...args: any[]) {
-    console.error(`${logPrefix} ${message}`, ...args);
+    if (logTarget === 'silent') return;
+    console.error(`${logPrefix} ${redact(message)}`, ...args.map(redactValue));
 }
 
 export function logPreview(label: string, data: string | object | null | undefined) {
     let preview: string;
-    if (typeof data === 'string') {
-        preview = data.substring(0, MAX_LOG_OUTPUT_LENGTH) + (data.length > MAX_LOG_OUTPUT_LENGTH ? "..." : "");
-    } else if (data) {
-        const jsonString = JSON.stringify(data);
-        preview = jsonString.substring(0, MAX_LOG_OUTPUT_LENGTH) + (jsonString.length > MAX_LOG_OUTPUT_LENGTH ? "..." : "");
+    if (typeof data === 'string' || data) {
+        // Redacted before truncating: a secret cut in half would no longer be recognized
+        const text = redact(typeof data === 'string' ? data : JSON.stringify(data));
+        preview = text.substring(0, MAX_LOG_OUTPUT_LENGTH) + (text.length > MAX_LOG_OUTPUT_LENGTH ? "..." : "");
     } else {
         preview = '[No Data]';
     }
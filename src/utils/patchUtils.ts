@@ -0,0 +1,118 @@
+/**
+ * Exact, all-or-nothing patch application for the patchFile tool. Nothing here touches the
+ * filesystem; callers write the returned content only if every edit applied.
+ */
+
+export interface SearchReplaceEdit {
+    search: string;
+    replace: string;
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+    let count = 0;
+    let index = haystack.indexOf(needle);
+    while (index !== -1) {
+        count++;
+        index = haystack.indexOf(needle, index + needle.length);
+    }
+    return count;
+}
+
+/**
+ * Applies search/replace blocks in order. Each `search` must occur exactly once in the
+ * content as it stands after the previous edits.
+ * @throws Error describing the first edit that does not apply.
+ */
+export function applySearchReplace(content: string, edits: SearchReplaceEdit[]): string {
+    let result = content;
+    edits.forEach((edit, index) => {
+        if (typeof edit?.search !== 'string' || typeof edit?.replace !== 'string') {
+            throw new Error(`Edit #${index + 1}: 'search' and 'replace' must be strings.`);
+        }
+        if (edit.search.length === 0) {
+            throw new Error(`Edit #${index + 1}: 'search' must not be empty.`);
+        }
+        const occurrences = countOccurrences(result, edit.search);
+        if (occurrences === 0) {
+            throw new Error(`Edit #${index + 1}: search text not found. It must match the file exactly, including whitespace and indentation.`);
+        }
+        if (occurrences > 1) {
+            throw new Error(`Edit #${index + 1}: search text occurs ${occurrences} times. Include more surrounding lines so it is unique.`);
+        }
+        const at = result.indexOf(edit.search);
+        result = result.slice(0, at) + edit.replace + result.slice(at + edit.search.length);
+    });
+    return result;
+}
+
+interface Hunk {
+    oldStart: number; // 1-based
+    oldLines: string[]; // Context and removed lines
+    newLines: string[]; // Context and added lines
+}
+
+function parseUnifiedDiff(diff: string): Hunk[] {
+    const hunks: Hunk[] = [];
+    let current: Hunk | null = null;
+    const diffLines = diff.replace(/\r\n/g, '\n').split('\n');
+    if (diffLines[diffLines.length - 1] === '') diffLines.pop(); // The diff's final newline is not a context line
+    for (const line of diffLines) {
+        const header = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+        if (header) {
+            current = { oldStart: parseInt(header[1], 10), oldLines: [], newLines: [] };
+            hunks.push(current);
+            continue;
+        }
+        if (!current || line.startsWith('---') || line.startsWith('+++') || line.startsWith('\\')) {
+            continue; // File headers, "\ No newline at end of file", or preamble
+        }
+        if (line.startsWith('-')) {
+            current.oldLines.push(line.slice(1));
+        } else if (line.startsWith('+')) {
+            current.newLines.push(line.slice(1));
+        } else if (line.startsWith(' ') || line === '') {
+            const text = line.slice(1);
+            current.oldLines.push(text);
+            current.newLines.push(text);
+        } else {
+            throw new Error(`Malformed diff line: "${line}"`);
+        }
+    }
+    if (hunks.length === 0) {
+        throw new Error("No hunks found. Expected a unified diff with '@@ -a,b +c,d @@' headers.");
+    }
+    return hunks;
+}
+
+function matchesAt(lines: string[], block: string[], at: number): boolean {
+    if (at < 0 || at + block.length > lines.length) return false;
+    return block.every((line, i) => lines[at + i] === line);
+}
+
+/**
+ * Applies a unified diff. Each hunk's context and removed lines must match the file exactly;
+ * a hunk is applied at its stated line, or at the single other location where it matches.
+ * @throws Error describing the first hunk that does not apply.
+ */
+export function applyUnifiedDiff(content: string, diff: string): string {
+    const lines = content.split('\n');
+    let offset = 0; // Line shift caused by earlier hunks
+    parseUnifiedDiff(diff).forEach((hunk, index) => {
+        let at = hunk.oldStart - 1 + offset;
+        if (hunk.oldLines.length === 0) {
+            at = Math.max(0, Math.min(lines.length, hunk.oldStart + offset)); // Pure insertion after oldStart
+        } else if (!matchesAt(lines, hunk.oldLines, at)) {
+            const candidates: number[] = [];
+            for (let i = 0; i <= lines.length - hunk.oldLines.length; i++) {
+                if (matchesAt(lines, hunk.oldLines, i)) candidates.push(i);
+            }
+            if (candidates.length !== 1) {
+                throw new Error(`Hunk #${index + 1} (@@ -${hunk.oldStart}): ${candidates.length === 0 ? 'context/removed lines do not match the file' : `matches ${candidates.length} locations`}. Re-read the file and regenerate the diff.`);
+            }
+            at = candidates[0];
+        }
+        lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+        offset += hunk.newLines.length - hunk.oldLines.length;
+    });
+    return lines.join('\n');
+}